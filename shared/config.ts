@@ -80,7 +80,13 @@ export const API_ENDPOINTS = {
   download: '/api/download',
   aiProxy: '/api/ai/chat',
   usage: '/api/usage',
+  usageHistory: '/api/usage/history',
   authToken: '/api/auth/token',
+  authRefresh: '/api/auth/refresh',
+  authLogout: '/api/auth/logout',
+  authDeviceCode: '/api/auth/device/code',
+  authDeviceToken: '/api/auth/device/token',
+  accountDevices: '/api/account/devices',
 
   // External APIs
   googleCalendar: 'https://www.googleapis.com/calendar/v3',
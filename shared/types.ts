@@ -74,10 +74,16 @@ export type StripeWebhookEvent =
   | 'customer.subscription.created'
   | 'customer.subscription.updated'
   | 'customer.subscription.deleted'
+  | 'customer.subscription.trial_will_end'
+  | 'customer.subscription.paused'
+  | 'customer.subscription.resumed'
+  | 'customer.updated'
   | 'invoice.payment_succeeded'
   | 'invoice.payment_failed'
+  | 'charge.refunded'
+  | 'charge.dispute.created'
 
-// AI Tool definitions
+// AI Tool definitions (mirrored in website/lib/ai/tools.ts for the managed proxy)
 export const AI_TOOLS = [
   {
     name: 'create_calendar_event',
@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { signIn, useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+
+const PROVIDERS = [
+  { id: "google", name: "Google" },
+  { id: "apple", name: "Apple" },
+  { id: "github", name: "GitHub" },
+];
+
+interface Connections {
+  email: string;
+  has_password: boolean;
+  providers: { provider: string; can_unlink: boolean }[];
+}
+
+export default function ConnectionsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [connections, setConnections] = useState<Connections | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [successMsg, setSuccessMsg] = useState("");
+
+  const loadConnections = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account/connections");
+      const data = await res.json();
+      if (!res.ok) {
+        setErrorMsg(data.error || "Failed to load sign-in methods.");
+      } else {
+        setConnections(data);
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.replace("/login?callbackUrl=/account/connections");
+    } else if (status === "authenticated") {
+      loadConnections();
+    }
+  }, [status, router, loadConnections]);
+
+  async function handleUnlink(provider: string) {
+    setBusy(provider);
+    setErrorMsg("");
+    setSuccessMsg("");
+    try {
+      const res = await fetch(`/api/account/connections/${provider}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setErrorMsg(data.error || "Failed to unlink provider.");
+      } else {
+        await loadConnections();
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setBusy(null);
+  }
+
+  async function handleSetPassword(e: React.FormEvent) {
+    e.preventDefault();
+    setErrorMsg("");
+    setSuccessMsg("");
+
+    if (password !== confirmPassword) {
+      setErrorMsg("Passwords do not match.");
+      return;
+    }
+
+    setBusy("password");
+    try {
+      const res = await fetch("/api/auth/password/set", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ newPassword: password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrorMsg(data.error || "Failed to set password.");
+      } else {
+        setPassword("");
+        setConfirmPassword("");
+        setSuccessMsg(
+          "Password added. You can now sign in to the app with your email and password."
+        );
+        await loadConnections();
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setBusy(null);
+  }
+
+  const linked = new Map(
+    connections?.providers.map((p) => [p.provider, p]) ?? []
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Sign-in methods</h1>
+          {connections && (
+            <p className="text-gray-500 dark:text-gray-400">
+              {connections.email}
+            </p>
+          )}
+        </div>
+
+        {/* Card */}
+        <div className="glass rounded-2xl p-8 space-y-6">
+          {errorMsg && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+              {errorMsg}
+            </div>
+          )}
+          {successMsg && (
+            <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 text-sm">
+              {successMsg}
+            </div>
+          )}
+
+          {!connections ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              Loading...
+            </p>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {PROVIDERS.map((provider) => {
+                  const account = linked.get(provider.id);
+                  return (
+                    <li
+                      key={provider.id}
+                      className="py-3 flex items-center justify-between gap-4"
+                    >
+                      <div>
+                        <p className="font-medium">{provider.name}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {account ? "Linked" : "Not linked"}
+                        </p>
+                      </div>
+                      {account ? (
+                        <button
+                          onClick={() => handleUnlink(provider.id)}
+                          disabled={!account.can_unlink || busy !== null}
+                          title={
+                            account.can_unlink
+                              ? undefined
+                              : "Set a password or link another provider first"
+                          }
+                          className="flex-shrink-0 py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                        >
+                          {busy === provider.id ? "Unlinking..." : "Unlink"}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            signIn(provider.id, {
+                              callbackUrl: "/account/connections",
+                            })
+                          }
+                          disabled={busy !== null}
+                          className="flex-shrink-0 py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                        >
+                          Link
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+                <li className="py-3">
+                  <p className="font-medium">Password</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {connections.has_password
+                      ? "Set. Use it to sign in with your email address."
+                      : "Not set. Add one to sign in to the app with your email address."}
+                  </p>
+                </li>
+              </ul>
+
+              {!connections.has_password && (
+                <form onSubmit={handleSetPassword} className="space-y-4">
+                  <div>
+                    <label
+                      htmlFor="password"
+                      className="block text-sm font-medium mb-1.5"
+                    >
+                      New password
+                    </label>
+                    <input
+                      id="password"
+                      type="password"
+                      required
+                      minLength={8}
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                      placeholder="At least 8 characters"
+                    />
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="confirmPassword"
+                      className="block text-sm font-medium mb-1.5"
+                    >
+                      Confirm password
+                    </label>
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      required
+                      minLength={8}
+                      autoComplete="new-password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                      placeholder="••••••••"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={busy !== null}
+                    className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                  >
+                    {busy === "password" ? "Saving..." : "Add password"}
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            <Link
+              href="/account"
+              className="text-primary-500 hover:text-primary-600 font-medium"
+            >
+              Back to your account
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
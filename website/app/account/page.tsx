@@ -0,0 +1,501 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+
+interface Device {
+  id: string;
+  device_name: string | null;
+  app_version: string | null;
+  ip_address: string | null;
+  signed_in_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+interface Account {
+  email: string;
+  has_password: boolean;
+  pending_email: string | null;
+  deletion_scheduled_for: string | null;
+}
+
+const SETTINGS_LINKS = [
+  {
+    href: "/account/connections",
+    title: "Sign-in methods",
+    description: "Linked Google, Apple and GitHub accounts, and your password",
+  },
+  {
+    href: "/account/security",
+    title: "Security",
+    description: "Two-factor authentication and recovery codes",
+  },
+];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function AccountPage() {
+  const { data: session, status, update } = useSession();
+  const router = useRouter();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [confirmEmail, setConfirmEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
+  const [emailError, setEmailError] = useState("");
+
+  const loadDevices = useCallback(async () => {
+    setErrorMsg("");
+    try {
+      const res = await fetch("/api/account/devices");
+      const data = await res.json();
+      if (!res.ok) {
+        setErrorMsg(data.error || "Failed to load devices.");
+      } else {
+        setDevices(data.devices);
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setIsLoading(false);
+  }, []);
+
+  const loadAccount = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account");
+      if (res.ok) setAccount(await res.json());
+    } catch {
+      // The deletion section just stays hidden
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.replace("/login?callbackUrl=/account");
+    } else if (status === "authenticated") {
+      loadDevices();
+      loadAccount();
+    }
+  }, [status, router, loadDevices, loadAccount]);
+
+  // A confirmed email change leaves the session with the old address
+  const sessionEmail = session?.user?.email;
+  const sessionRefreshed = useRef(false);
+  useEffect(() => {
+    if (
+      !sessionRefreshed.current &&
+      account &&
+      sessionEmail &&
+      account.email !== sessionEmail
+    ) {
+      sessionRefreshed.current = true;
+      update();
+    }
+  }, [account, sessionEmail, update]);
+
+  async function handleChangeEmail(e: React.FormEvent) {
+    e.preventDefault();
+    setIsChangingEmail(true);
+    setEmailError("");
+    try {
+      const res = await fetch("/api/account/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ new_email: newEmail, password: emailPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setEmailError(data.error || "Failed to change email.");
+      } else {
+        setNewEmail("");
+        setEmailPassword("");
+        await loadAccount();
+      }
+    } catch {
+      setEmailError("Something went wrong. Please try again.");
+    }
+    setIsChangingEmail(false);
+  }
+
+  async function handleCancelEmailChange() {
+    setIsChangingEmail(true);
+    setEmailError("");
+    try {
+      const res = await fetch("/api/account/email", { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setEmailError(data.error || "Failed to cancel email change.");
+      } else {
+        await loadAccount();
+      }
+    } catch {
+      setEmailError("Something went wrong. Please try again.");
+    }
+    setIsChangingEmail(false);
+  }
+
+  async function handleDelete(e: React.FormEvent) {
+    e.preventDefault();
+    setIsDeleting(true);
+    setDeleteError("");
+    try {
+      const res = await fetch("/api/account", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirm_email: confirmEmail, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setDeleteError(data.error || "Failed to delete account.");
+      } else {
+        setConfirmEmail("");
+        setPassword("");
+        await Promise.all([loadAccount(), loadDevices()]);
+      }
+    } catch {
+      setDeleteError("Something went wrong. Please try again.");
+    }
+    setIsDeleting(false);
+  }
+
+  async function handleCancelDeletion() {
+    setIsDeleting(true);
+    setDeleteError("");
+    try {
+      const res = await fetch("/api/account/cancel-deletion", {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setDeleteError(data.error || "Failed to cancel deletion.");
+      } else {
+        await loadAccount();
+      }
+    } catch {
+      setDeleteError("Something went wrong. Please try again.");
+    }
+    setIsDeleting(false);
+  }
+
+  async function handleSignOut(id: string) {
+    setRevokingId(id);
+    setErrorMsg("");
+    try {
+      const res = await fetch(`/api/account/devices/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setErrorMsg(data.error || "Failed to sign out device.");
+      } else {
+        setDevices((current) => current.filter((device) => device.id !== id));
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setRevokingId(null);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-2xl">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Your account</h1>
+          {session?.user?.email && (
+            <p className="text-gray-500 dark:text-gray-400">
+              {session.user.email}
+            </p>
+          )}
+        </div>
+
+        {/* Devices */}
+        <div className="glass rounded-2xl p-8">
+          <h2 className="text-xl font-bold mb-1">Devices</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Macs signed in to the ezLander app. Signing out a device ends its
+            session immediately.
+          </p>
+
+          {errorMsg && (
+            <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+              {errorMsg}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              Loading...
+            </p>
+          ) : devices.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              No devices are signed in.{" "}
+              <Link
+                href="/download"
+                className="text-primary-500 hover:text-primary-600 font-medium"
+              >
+                Download the app
+              </Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {devices.map((device) => (
+                <li
+                  key={device.id}
+                  className="py-4 flex items-center justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {device.device_name || "Mac"}
+                      {device.current && (
+                        <span className="ml-2 text-xs text-primary-500">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {device.app_version
+                        ? `ezLander ${device.app_version}`
+                        : "Unknown version"}
+                      {device.ip_address && ` · ${device.ip_address}`}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Last active {formatDate(device.last_seen_at)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleSignOut(device.id)}
+                    disabled={revokingId === device.id}
+                    className="flex-shrink-0 py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    {revokingId === device.id ? "Signing out..." : "Sign out"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Email address */}
+        {account && (
+          <div className="glass rounded-2xl p-8 mt-6 space-y-4">
+            <h2 className="text-xl font-bold">Email address</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              You sign in and receive receipts at{" "}
+              <span className="font-medium">{account.email}</span>.
+            </p>
+
+            {emailError && (
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                {emailError}
+              </div>
+            )}
+
+            {account.pending_email ? (
+              <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800 space-y-3">
+                <p className="text-sm">
+                  We sent a confirmation link to{" "}
+                  <strong>{account.pending_email}</strong>. Your address
+                  changes once you follow it.
+                </p>
+                <button
+                  onClick={handleCancelEmailChange}
+                  disabled={isChangingEmail}
+                  className="py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  Cancel change
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleChangeEmail} className="space-y-4">
+                <div>
+                  <label
+                    htmlFor="newEmail"
+                    className="block text-sm font-medium mb-1.5"
+                  >
+                    New email address
+                  </label>
+                  <input
+                    id="newEmail"
+                    type="email"
+                    required
+                    value={newEmail}
+                    onChange={(e) => setNewEmail(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                    placeholder="you@example.com"
+                  />
+                </div>
+                {account.has_password && (
+                  <div>
+                    <label
+                      htmlFor="emailPassword"
+                      className="block text-sm font-medium mb-1.5"
+                    >
+                      Password
+                    </label>
+                    <input
+                      id="emailPassword"
+                      type="password"
+                      required
+                      value={emailPassword}
+                      onChange={(e) => setEmailPassword(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                      placeholder="••••••••"
+                    />
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={isChangingEmail}
+                  className="py-2 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isChangingEmail ? "Sending..." : "Change email"}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Settings */}
+        <div className="glass rounded-2xl p-8 mt-6 divide-y divide-gray-200 dark:divide-gray-700">
+          {SETTINGS_LINKS.map((link) => (
+            <div
+              key={link.href}
+              className="py-4 first:pt-0 last:pb-0 flex items-center justify-between gap-4"
+            >
+              <div>
+                <h2 className="text-xl font-bold mb-1">{link.title}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {link.description}
+                </p>
+              </div>
+              <Link
+                href={link.href}
+                className="flex-shrink-0 py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                Manage
+              </Link>
+            </div>
+          ))}
+        </div>
+
+        {/* Your data */}
+        {account && (
+          <div className="glass rounded-2xl p-8 mt-6 space-y-4">
+            <h2 className="text-xl font-bold">Your data</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Download a copy of everything ezLander stores about you, or
+              delete your account.
+            </p>
+            <a
+              href="/api/account/export"
+              className="inline-block py-2 px-4 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Download my data
+            </a>
+
+            {deleteError && (
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                {deleteError}
+              </div>
+            )}
+
+            {account.deletion_scheduled_for ? (
+              <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 space-y-3">
+                <p className="text-sm text-red-700 dark:text-red-400">
+                  Your account will be permanently deleted on{" "}
+                  <strong>
+                    {new Date(account.deletion_scheduled_for).toLocaleDateString(
+                      undefined,
+                      { dateStyle: "long" }
+                    )}
+                  </strong>
+                  .
+                </p>
+                <button
+                  onClick={handleCancelDeletion}
+                  disabled={isDeleting}
+                  className="py-2 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isDeleting ? "Please wait..." : "Keep my account"}
+                </button>
+              </div>
+            ) : (
+              <form
+                onSubmit={handleDelete}
+                className="pt-4 space-y-4 border-t border-gray-200 dark:border-gray-700"
+              >
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Deleting your account cancels your subscription and signs
+                  out all your devices. Your data is permanently removed after
+                  14 days; until then you can change your mind.
+                </p>
+                <div>
+                  <label
+                    htmlFor="confirmEmail"
+                    className="block text-sm font-medium mb-1.5"
+                  >
+                    Type <span className="font-mono">{account.email}</span> to
+                    confirm
+                  </label>
+                  <input
+                    id="confirmEmail"
+                    type="email"
+                    required
+                    value={confirmEmail}
+                    onChange={(e) => setConfirmEmail(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                  />
+                </div>
+                {account.has_password && (
+                  <div>
+                    <label
+                      htmlFor="deletePassword"
+                      className="block text-sm font-medium mb-1.5"
+                    >
+                      Password
+                    </label>
+                    <input
+                      id="deletePassword"
+                      type="password"
+                      required
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                      placeholder="••••••••"
+                    />
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={isDeleting}
+                  className="py-2 px-4 rounded-xl bg-red-600 text-white text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {isDeleting ? "Deleting..." : "Delete my account"}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
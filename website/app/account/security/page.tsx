@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  has_password: boolean;
+  recovery_codes_remaining: number;
+}
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all";
+const primaryButtonClassName =
+  "w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50";
+const secondaryButtonClassName =
+  "w-full py-3 px-4 rounded-xl border border-gray-200 dark:border-gray-700 font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50";
+
+export default function SecurityPage() {
+  const { status: sessionStatus } = useSession();
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; otpauth_uri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account/two-factor");
+      const data = await res.json();
+      if (!res.ok) {
+        setErrorMsg(data.error || "Failed to load security settings.");
+      } else {
+        setStatus(data);
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus === "unauthenticated") {
+      router.replace("/login?callbackUrl=/account/security");
+    } else if (sessionStatus === "authenticated") {
+      loadStatus();
+    }
+  }, [sessionStatus, router, loadStatus]);
+
+  async function post(path: string, body: object = {}) {
+    setIsLoading(true);
+    setErrorMsg("");
+    try {
+      const res = await fetch(`/api/account/two-factor/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      setIsLoading(false);
+      if (!res.ok) {
+        setErrorMsg(data.error || "Something went wrong. Please try again.");
+        return null;
+      }
+      return data;
+    } catch {
+      setIsLoading(false);
+      setErrorMsg("Something went wrong. Please try again.");
+      return null;
+    }
+  }
+
+  async function handleStartSetup() {
+    const data = await post("setup");
+    if (data) setSetup(data);
+  }
+
+  async function handleEnable(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await post("enable", { code });
+    if (data) {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recovery_codes);
+      loadStatus();
+    }
+  }
+
+  async function handleRegenerate() {
+    const data = await post("recovery-codes", { code });
+    if (data) {
+      setCode("");
+      setRecoveryCodes(data.recovery_codes);
+      loadStatus();
+    }
+  }
+
+  async function handleDisable() {
+    const data = await post("disable", { code });
+    if (data) {
+      setCode("");
+      loadStatus();
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Two-factor authentication</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Require a code from your authenticator app when you sign in with
+            your password
+          </p>
+        </div>
+
+        {/* Card */}
+        <div className="glass rounded-2xl p-8 space-y-4">
+          {errorMsg && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+              {errorMsg}
+            </div>
+          )}
+
+          {recoveryCodes ? (
+            <>
+              <p className="text-gray-600 dark:text-gray-300">
+                Save these recovery codes somewhere safe. Each can be used
+                once to sign in if you lose your authenticator. They
+                won&apos;t be shown again.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <button
+                onClick={() => setRecoveryCodes(null)}
+                className={primaryButtonClassName}
+              >
+                I&apos;ve saved my codes
+              </button>
+            </>
+          ) : !status ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              Loading...
+            </p>
+          ) : status.enabled ? (
+            <>
+              <p className="text-gray-600 dark:text-gray-300">
+                Two-factor authentication is <strong>on</strong>. You have{" "}
+                {status.recovery_codes_remaining} unused recovery code
+                {status.recovery_codes_remaining === 1 ? "" : "s"} left.
+              </p>
+
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium mb-1.5">
+                  Authentication or recovery code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={inputClassName}
+                  placeholder="123456"
+                />
+              </div>
+
+              <button
+                onClick={handleRegenerate}
+                disabled={isLoading || !code}
+                className={secondaryButtonClassName}
+              >
+                Generate new recovery codes
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={isLoading || !code}
+                className={secondaryButtonClassName}
+              >
+                Turn off two-factor authentication
+              </button>
+            </>
+          ) : setup ? (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <p className="text-gray-600 dark:text-gray-300">
+                Add this key to your authenticator app, or{" "}
+                <a
+                  href={setup.otpauth_uri}
+                  className="text-primary-500 hover:text-primary-600 font-medium"
+                >
+                  open it in your authenticator
+                </a>
+                , then enter the 6-digit code it shows.
+              </p>
+              <p className="font-mono text-sm break-all p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </p>
+
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium mb-1.5">
+                  Authentication code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  required
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={inputClassName}
+                  placeholder="123456"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className={primaryButtonClassName}
+              >
+                {isLoading ? "Verifying..." : "Turn on"}
+              </button>
+            </form>
+          ) : (
+            <>
+              <p className="text-gray-600 dark:text-gray-300">
+                Two-factor authentication is <strong>off</strong>.
+                {!status.has_password &&
+                  " Your account signs in with a third-party provider, so the code is only asked for if you add a password."}
+              </p>
+              <button
+                onClick={handleStartSetup}
+                disabled={isLoading}
+                className={primaryButtonClassName}
+              >
+                {isLoading ? "Please wait..." : "Set up two-factor authentication"}
+              </button>
+            </>
+          )}
+
+          <p className="pt-2 text-center text-sm text-gray-500 dark:text-gray-400">
+            <Link
+              href="/account"
+              className="text-primary-500 hover:text-primary-600 font-medium"
+            >
+              Back to your account
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
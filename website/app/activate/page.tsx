@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter, useSearchParams } from "next/navigation";
+
+interface PendingDevice {
+  user_code: string;
+  device_name: string | null;
+  app_version: string | null;
+  ip_address: string | null;
+}
+
+export default function ActivatePage() {
+  return (
+    <Suspense>
+      <ActivateForm />
+    </Suspense>
+  );
+}
+
+function ActivateForm() {
+  const searchParams = useSearchParams();
+  const initialCode = searchParams.get("code") ?? "";
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [code, setCode] = useState(initialCode);
+  const [device, setDevice] = useState<PendingDevice | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [result, setResult] = useState<"approved" | "denied" | null>(null);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = initialCode
+        ? `/activate?code=${encodeURIComponent(initialCode)}`
+        : "/activate";
+      router.replace(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+    }
+  }, [status, router, initialCode]);
+
+  async function handleLookup(e: React.FormEvent) {
+    e.preventDefault();
+    setIsLoading(true);
+    setErrorMsg("");
+
+    try {
+      const res = await fetch(
+        `/api/account/devices/activate?user_code=${encodeURIComponent(code)}`
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        setErrorMsg(data.error || "That code is invalid or has expired.");
+      } else {
+        setDevice(data);
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setIsLoading(false);
+  }
+
+  async function handleDecision(action: "approve" | "deny") {
+    if (!device) return;
+    setIsLoading(true);
+    setErrorMsg("");
+
+    try {
+      const res = await fetch("/api/account/devices/activate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user_code: device.user_code, action }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setErrorMsg(data.error || "Failed to complete sign-in.");
+        if (data.code === "INVALID_USER_CODE") setDevice(null);
+      } else {
+        setResult(action === "approve" ? "approved" : "denied");
+      }
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setIsLoading(false);
+  }
+
+  if (status !== "authenticated") {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Sign in to the app</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Enter the code shown in the ezLander app
+          </p>
+        </div>
+
+        {/* Card */}
+        <div className="glass rounded-2xl p-8">
+          {result === "approved" ? (
+            <p className="text-center text-gray-600 dark:text-gray-300">
+              You&apos;re signed in. Return to the ezLander app to continue.
+            </p>
+          ) : result === "denied" ? (
+            <p className="text-center text-gray-600 dark:text-gray-300">
+              Sign-in request denied. The app has not been given access to
+              your account.
+            </p>
+          ) : device ? (
+            <div className="space-y-4">
+              {errorMsg && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                  {errorMsg}
+                </div>
+              )}
+
+              <p className="text-gray-600 dark:text-gray-300">
+                <span className="font-medium">
+                  {device.device_name || "A Mac"}
+                </span>{" "}
+                is asking to sign in to the ezLander app as{" "}
+                <span className="font-medium">{session?.user?.email}</span>.
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Code {device.user_code}
+                {device.app_version && ` · ezLander ${device.app_version}`}
+                {device.ip_address && ` · ${device.ip_address}`}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Only approve if you started this sign-in yourself.
+              </p>
+
+              <button
+                onClick={() => handleDecision("approve")}
+                disabled={isLoading}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {isLoading ? "Please wait..." : "Approve"}
+              </button>
+              <button
+                onClick={() => handleDecision("deny")}
+                disabled={isLoading}
+                className="w-full py-3 px-4 rounded-xl border border-gray-200 dark:border-gray-700 font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                Deny
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleLookup} className="space-y-4">
+              {errorMsg && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                  {errorMsg}
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium mb-1.5"
+                >
+                  Code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  required
+                  autoComplete="off"
+                  autoCapitalize="characters"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all font-mono tracking-widest uppercase"
+                  placeholder="XXXX-XXXX"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {isLoading ? "Checking..." : "Continue"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { cancelAccountDeletion } from "@/lib/account-deletion";
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await cancelAccountDeletion(authUser.userId))) {
+      return NextResponse.json(
+        { error: "This account is not scheduled for deletion" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Account deletion cancel error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel account deletion" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { unlinkProvider } from "@/lib/db/linked-accounts";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await unlinkProvider(authUser.userId, params.provider);
+
+    if (result === "not_linked") {
+      return NextResponse.json(
+        { error: "That provider is not linked to your account" },
+        { status: 404 }
+      );
+    }
+
+    if (result === "last_sign_in_method") {
+      return NextResponse.json(
+        {
+          error: "This is your only way to sign in. Set a password or link another provider first.",
+          code: "LAST_SIGN_IN_METHOD",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Provider unlink error:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink provider" },
+      { status: 500 }
+    );
+  }
+}
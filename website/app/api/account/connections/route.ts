@@ -0,0 +1,46 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { listLinkedProviders } from "@/lib/db/linked-accounts";
+
+// Sign-in methods on the account: linked OAuth providers and whether a
+// password is set. Linking a provider goes through the normal Auth.js sign-in
+// while signed in, which attaches it to the current user.
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const providers = await listLinkedProviders(user.id);
+    const signInMethods = providers.length + (user.passwordHash ? 1 : 0);
+
+    return NextResponse.json({
+      email: user.email,
+      has_password: !!user.passwordHash,
+      providers: providers.map((provider) => ({
+        provider,
+        can_unlink: signInMethods > 1,
+      })),
+    });
+  } catch (error) {
+    console.error("Connections list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
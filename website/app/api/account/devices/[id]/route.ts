@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { revokeSession } from "@/lib/db/app-sessions";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeSession(authUser.userId, params.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Device sign-out error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out device" },
+      { status: 500 }
+    );
+  }
+}
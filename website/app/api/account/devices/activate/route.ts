@@ -0,0 +1,137 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { deviceLimitMessage, getReachedDeviceLimit } from "@/lib/app-tokens";
+import {
+  formatUserCode,
+  getPendingDeviceAuthorization,
+  resolveDeviceAuthorization,
+} from "@/lib/db/device-authorizations";
+
+const INVALID_CODE_ERROR = {
+  error: "That code is invalid or has expired. Check the code in the app and try again.",
+  code: "INVALID_USER_CODE",
+};
+
+// Shows the signed-in user which app install is asking to sign in before
+// they approve it.
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const userCode = request.nextUrl.searchParams.get("user_code");
+    const authorization = userCode
+      ? await getPendingDeviceAuthorization(userCode)
+      : null;
+    if (!authorization) {
+      return NextResponse.json(INVALID_CODE_ERROR, { status: 404 });
+    }
+
+    return NextResponse.json({
+      user_code: formatUserCode(authorization.userCode),
+      device_name: authorization.deviceName,
+      app_version: authorization.clientVersion,
+      ip_address: authorization.ipAddress,
+      expires_at: authorization.expiresAt,
+    });
+  } catch (error) {
+    console.error("Device code lookup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { user_code, action } = await request.json();
+
+    if (typeof user_code !== "string" || (action !== "approve" && action !== "deny")) {
+      return NextResponse.json(
+        { error: "user_code and an action of approve or deny are required" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "approve") {
+      const user = await db.query.authUsers.findFirst({
+        where: eq(authUsers.id, authUser.userId),
+      });
+
+      if (!user) {
+        return NextResponse.json(
+          { error: "Authentication required" },
+          { status: 401 }
+        );
+      }
+
+      if (user.deletionScheduledFor) {
+        return NextResponse.json(
+          {
+            error: "This account is scheduled for deletion. Cancel the deletion from your account page first.",
+            code: "ACCOUNT_PENDING_DELETION",
+          },
+          { status: 403 }
+        );
+      }
+
+      if (!user.emailVerified) {
+        return NextResponse.json(
+          {
+            error: "Please verify your email address before signing in to the app",
+            code: "EMAIL_NOT_VERIFIED",
+          },
+          { status: 403 }
+        );
+      }
+
+      const deviceLimit = await getReachedDeviceLimit(user.id);
+      if (deviceLimit) {
+        return NextResponse.json(
+          {
+            error: deviceLimitMessage(deviceLimit),
+            code: "DEVICE_LIMIT_REACHED",
+            device_limit: deviceLimit,
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    const resolved = await resolveDeviceAuthorization(
+      user_code,
+      authUser.userId,
+      action === "approve" ? "approved" : "denied"
+    );
+    if (!resolved) {
+      return NextResponse.json(INVALID_CODE_ERROR, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Device activation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
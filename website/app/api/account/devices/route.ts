@@ -0,0 +1,37 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { listActiveSessions } from "@/lib/db/app-sessions";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listActiveSessions(authUser.userId);
+
+    return NextResponse.json({
+      devices: sessions.map((session) => ({
+        id: session.id,
+        device_name: session.deviceName,
+        app_version: session.clientVersion,
+        ip_address: session.ipAddress,
+        signed_in_at: session.createdAt,
+        last_seen_at: session.lastSeenAt,
+        current: session.id === authUser.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("Device list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load devices" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { confirmEmailChange } from "@/lib/email-change";
+
+// Opened from the link in the confirmation email, so it answers with a
+// redirect to the login page rather than JSON.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = searchParams.get("user");
+  const token = searchParams.get("token");
+  const loginUrl = new URL("/login", request.nextUrl.origin);
+
+  try {
+    const result =
+      userId && token
+        ? await confirmEmailChange(userId, token)
+        : { status: "invalid" as const };
+
+    if (result.status === "changed") {
+      loginUrl.searchParams.set("email_changed", "1");
+    } else {
+      loginUrl.searchParams.set(
+        "error",
+        result.status === "email_in_use" ? "EmailInUse" : "EmailChangeFailed"
+      );
+    }
+    return NextResponse.redirect(loginUrl);
+  } catch (error) {
+    console.error("Email change confirmation error:", error);
+    loginUrl.searchParams.set("error", "EmailChangeFailed");
+    return NextResponse.redirect(loginUrl);
+  }
+}
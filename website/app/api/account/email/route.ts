@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { isValidEmail } from "@/lib/auth-utils";
+import { rateLimit } from "@/lib/rate-limit";
+import { cancelEmailChange, requestEmailChange } from "@/lib/email-change";
+
+const REQUEST_LIMIT = 3;
+const REQUEST_WINDOW_MS = 60 * 60_000;
+
+// Starts an email change; see lib/email-change.ts for what happens once the
+// new address is confirmed.
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { new_email, password } = await request.json();
+    const newEmail =
+      typeof new_email === "string" ? new_email.toLowerCase().trim() : "";
+
+    if (!newEmail || !isValidEmail(newEmail)) {
+      return NextResponse.json(
+        { error: "Valid email is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.id, authUser.userId),
+    });
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (newEmail === user.email) {
+      return NextResponse.json(
+        { error: "That's already your email address" },
+        { status: 400 }
+      );
+    }
+
+    if (user.passwordHash) {
+      if (!password || !(await bcrypt.compare(password, user.passwordHash))) {
+        return NextResponse.json(
+          { error: "Password is incorrect" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Each request emails the new address, so cap how often that can happen
+    const { success } = await rateLimit(
+      `email-change:${user.id}`,
+      REQUEST_LIMIT,
+      REQUEST_WINDOW_MS
+    );
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many email change requests. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const result = await requestEmailChange(user, newEmail);
+
+    if (result === "email_in_use") {
+      return NextResponse.json(
+        {
+          error: "An account with this email already exists",
+          code: "EMAIL_IN_USE",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ pending_email: newEmail });
+  } catch (error) {
+    console.error("Email change request error:", error);
+    return NextResponse.json(
+      { error: "Failed to change email" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    await cancelEmailChange(authUser.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Email change cancel error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel email change" },
+      { status: 500 }
+    );
+  }
+}
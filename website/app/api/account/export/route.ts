@@ -0,0 +1,37 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { exportAccountData } from "@/lib/account-export";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const data = await exportAccountData(authUser.userId);
+    if (!data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const date = data.exported_at.slice(0, 10);
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="ezlander-export-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Account export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export account data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  scheduleAccountDeletion,
+} from "@/lib/account-deletion";
+
+async function getRequestAccount(request: NextRequest) {
+  const authUser = await resolveRequestUser(request);
+  if (!authUser?.userId) return null;
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, authUser.userId),
+  });
+  return user ?? null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestAccount(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      has_password: !!user.passwordHash,
+      pending_email: user.pendingEmail,
+      deletion_scheduled_for: user.deletionScheduledFor?.toISOString() ?? null,
+    });
+  } catch (error) {
+    console.error("Account lookup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Schedules the account for deletion after a grace period; see
+// lib/account-deletion.ts for what happens now and what at the end of it.
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestAccount(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { confirm_email, password } = await request.json();
+
+    if (confirm_email?.toLowerCase().trim() !== user.email) {
+      return NextResponse.json(
+        { error: "Type your email address to confirm" },
+        { status: 400 }
+      );
+    }
+
+    if (user.passwordHash) {
+      if (!password || !(await bcrypt.compare(password, user.passwordHash))) {
+        return NextResponse.json(
+          { error: "Password is incorrect" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const scheduledFor = await scheduleAccountDeletion(user);
+
+    return NextResponse.json({
+      deletion_scheduled_for: scheduledFor.toISOString(),
+      grace_period_days: ACCOUNT_DELETION_GRACE_DAYS,
+    });
+  } catch (error) {
+    console.error("Account deletion error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import {
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import { sendEmail } from "@/lib/email";
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+
+    if (!isTwoFactorEnabled(user)) {
+      return NextResponse.json(
+        {
+          error: "Two-factor authentication is not enabled",
+          code: "TWO_FACTOR_NOT_ENABLED",
+        },
+        { status: 409 }
+      );
+    }
+
+    // A stolen session alone shouldn't be enough to turn 2FA off
+    if (typeof code !== "string" || !(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        {
+          error: "Invalid authentication code",
+          code: "INVALID_TWO_FACTOR_CODE",
+        },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user.id);
+
+    await sendEmail(user.email, "two_factor_disabled", { name: user.name }).catch(
+      (err) => console.error("Failed to queue two-factor disabled email:", err)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Two-factor disable error:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { enableTwoFactor } from "@/lib/two-factor";
+import { sendEmail } from "@/lib/email";
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+
+    if (typeof code !== "string" || !code) {
+      return NextResponse.json(
+        { error: "Code is required" },
+        { status: 400 }
+      );
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        {
+          error: "Two-factor authentication is already enabled",
+          code: "TWO_FACTOR_ALREADY_ENABLED",
+        },
+        { status: 409 }
+      );
+    }
+
+    const recoveryCodes = await enableTwoFactor(user, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        {
+          error: "Invalid authentication code",
+          code: "INVALID_TWO_FACTOR_CODE",
+        },
+        { status: 400 }
+      );
+    }
+
+    await sendEmail(user.email, "two_factor_enabled", { name: user.name }).catch(
+      (err) => console.error("Failed to queue two-factor enabled email:", err)
+    );
+
+    return NextResponse.json({ recovery_codes: recoveryCodes });
+  } catch (error) {
+    console.error("Two-factor enable error:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { isTwoFactorEnabled, verifySecondFactor } from "@/lib/two-factor";
+import { replaceRecoveryCodes } from "@/lib/db/recovery-codes";
+
+// Replaces all recovery codes; the old ones stop working immediately.
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+
+    if (!isTwoFactorEnabled(user)) {
+      return NextResponse.json(
+        {
+          error: "Two-factor authentication is not enabled",
+          code: "TWO_FACTOR_NOT_ENABLED",
+        },
+        { status: 409 }
+      );
+    }
+
+    if (typeof code !== "string" || !(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        {
+          error: "Invalid authentication code",
+          code: "INVALID_TWO_FACTOR_CODE",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      recovery_codes: await replaceRecoveryCodes(user.id),
+    });
+  } catch (error) {
+    console.error("Recovery code regeneration error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
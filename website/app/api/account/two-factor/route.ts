@@ -0,0 +1,43 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { isTwoFactorEnabled } from "@/lib/two-factor";
+import { countUnusedRecoveryCodes } from "@/lib/db/recovery-codes";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const enabled = isTwoFactorEnabled(user);
+
+    return NextResponse.json({
+      enabled,
+      enabled_at: user.totpEnabledAt?.toISOString() ?? null,
+      has_password: !!user.passwordHash,
+      recovery_codes_remaining: enabled
+        ? await countUnusedRecoveryCodes(user.id)
+        : 0,
+    });
+  } catch (error) {
+    console.error("Two-factor status error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { startTwoFactorSetup } from "@/lib/two-factor";
+
+// Step one of enrollment: returns a secret for the authenticator app. 2FA
+// stays off until a code from it is confirmed at /enable.
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    const user = authUser?.userId
+      ? await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, authUser.userId),
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const setup = await startTwoFactorSetup(user);
+    if (!setup) {
+      return NextResponse.json(
+        {
+          error: "Two-factor authentication is already enabled",
+          code: "TWO_FACTOR_ALREADY_ENABLED",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      secret: setup.secret,
+      otpauth_uri: setup.otpauthUri,
+    });
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { requireRole } from "@/lib/roles";
+import { getStripeEvent } from "@/lib/db/stripe-events";
+import { processStripeEvent } from "@/lib/stripe-webhook";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireRole(request, "admin");
+    if (admin.response) return admin.response;
+
+    const record = await getStripeEvent(params.id);
+    if (!record) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (record.status !== "failed") {
+      return NextResponse.json(
+        { error: `Only failed events can be replayed; this one is ${record.status}` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`Replaying Stripe event ${record.id} for ${admin.user.userId}`);
+
+    // The stored payload was verified when it was first received
+    try {
+      const result = await processStripeEvent(JSON.parse(record.payload) as Stripe.Event);
+      return NextResponse.json({ id: record.id, result });
+    } catch (error) {
+      console.error(`Replay of Stripe event ${record.id} failed:`, error);
+      const updated = await getStripeEvent(record.id);
+      return NextResponse.json(
+        {
+          error: "Replay failed",
+          id: record.id,
+          attempts: updated?.attempts ?? record.attempts,
+          last_error: updated?.lastError ?? null,
+        },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    console.error("Stripe event replay error:", error);
+    return NextResponse.json(
+      { error: "Failed to replay event" },
+      { status: 500 }
+    );
+  }
+}
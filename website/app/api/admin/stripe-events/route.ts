@@ -0,0 +1,61 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/roles";
+import {
+  listStripeEvents,
+  STRIPE_EVENT_STATUSES,
+  type StripeEventStatus,
+} from "@/lib/db/stripe-events";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+function isStripeEventStatus(value: string): value is StripeEventStatus {
+  return (STRIPE_EVENT_STATUSES as readonly string[]).includes(value);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireRole(request, "admin");
+    if (admin.response) return admin.response;
+
+    const { searchParams } = new URL(request.url);
+
+    const status = searchParams.get("status") ?? "failed";
+    if (!isStripeEventStatus(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STRIPE_EVENT_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const rawLimit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(rawLimit)
+      ? Math.min(Math.max(rawLimit, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    const events = await listStripeEvents(status, limit);
+
+    return NextResponse.json({
+      status,
+      events: events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        object_id: event.objectId,
+        created: event.eventCreatedAt,
+        status: event.status,
+        attempts: event.attempts,
+        last_error: event.lastError,
+        received_at: event.receivedAt,
+        processed_at: event.processedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Stripe events list error:", error);
+    return NextResponse.json(
+      { error: "Failed to list Stripe events" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { isRole, requireRole } from "@/lib/roles";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireRole(request, "admin");
+    if (admin.response) return admin.response;
+
+    const { role } = await request.json();
+
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: "Role must be one of: user, support, admin" },
+        { status: 400 }
+      );
+    }
+
+    // Otherwise the last admin could lock everyone out of admin routes
+    if (params.id === admin.user.userId) {
+      return NextResponse.json(
+        { error: "You can't change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const [updated] = await db
+      .update(authUsers)
+      .set({ role })
+      .where(eq(authUsers.id, params.id))
+      .returning({ id: authUsers.id, email: authUsers.email, role: authUsers.role });
+
+    if (!updated) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    console.log(`User ${updated.id} role set to ${role} by ${admin.user.userId}`);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Role update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update role" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,104 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getActiveSubscription } from "@/lib/db/subscription-repo";
-import { getUsage, recordUsage } from "@/lib/db/token-usage";
-import { getTierTokenLimit } from "@/lib/tiers";
+import {
+  getUsage,
+  recordUsage,
+  extendReservation,
+  releaseReservation,
+  reserveTokens,
+  RESERVATION_RENEW_INTERVAL_MS,
+  settleReservation,
+  type TokenReservation,
+} from "@/lib/db/token-usage";
+import { getCreditBalance } from "@/lib/db/token-credits";
+import { getQuotaWarning } from "@/lib/quota-warnings";
+import { getClientVersion } from "@/lib/client-info";
+import type { SubscriptionTier } from "@/lib/tiers";
+import { getSubscriptionTokenLimit } from "@/lib/dunning";
 import { resolveRequestUser } from "@/lib/request-auth";
-import { isAdminEmail } from "@/lib/auth-utils";
+import { hasRole } from "@/lib/roles";
+import {
+  resolveRequestedTools,
+  validateChatMessages,
+  validateToolChoice,
+} from "@/lib/ai/tools";
+import { buildModelChain, selectModel } from "@/lib/ai/models";
+import { toTokenUsage, type TokenUsage } from "@/lib/ai/providers";
+import { requestWithFailover } from "@/lib/ai/failover";
+import { normalizeEventStream } from "@/lib/ai/stream";
+import { estimatePromptTokens } from "@/lib/ai/token-estimate";
+import {
+  recordUsageEvent,
+  type UsageEventStatus,
+} from "@/lib/db/usage-events";
 
-const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
-const MANAGED_OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
+// A request is refused rather than truncated to nothing when the quota left
+// after its prompt cannot fit at least this many completion tokens.
+const MIN_COMPLETION_TOKENS = 256;
+
+interface ProxyRequestContext {
+  userId: string;
+  model: string;
+  streaming: boolean;
+  startedAt: number;
+  clientVersion: string | null;
+}
+
+// Highest quota warning threshold reached, e.g. "X-Quota-Warning: 80". Usage
+// paid for with credits is already past the tier quota and counts as 100%.
+function quotaWarningHeaders(
+  usage: { totalTokens: number; creditTokens: number },
+  tokenLimit: number
+): Record<string, string> {
+  const warning = getQuotaWarning(
+    usage.totalTokens - usage.creditTokens,
+    tokenLimit
+  );
+  return warning ? { "X-Quota-Warning": String(warning.threshold) } : {};
+}
+
+/**
+ * Charges a finished request — against its reservation for subscribers, or
+ * straight to the usage table for admins, who have no quota to reserve — and
+ * appends it to the usage ledger.
+ */
+async function chargeUsage(
+  context: ProxyRequestContext,
+  reservation: TokenReservation | null,
+  usage: TokenUsage | null,
+  status: UsageEventStatus
+) {
+  const { userId } = context;
+
+  try {
+    if (reservation) {
+      await settleReservation(
+        reservation,
+        usage?.promptTokens ?? 0,
+        usage?.completionTokens ?? 0
+      );
+    } else if (usage && (usage.promptTokens > 0 || usage.completionTokens > 0)) {
+      await recordUsage(userId, usage.promptTokens, usage.completionTokens);
+    }
+  } catch (err) {
+    console.error("Failed to record usage:", err);
+  }
+
+  await recordUsageEvent({
+    userId,
+    model: context.model,
+    promptTokens: usage?.promptTokens ?? 0,
+    completionTokens: usage?.completionTokens ?? 0,
+    latencyMs: Date.now() - context.startedAt,
+    streaming: context.streaming,
+    status,
+    clientVersion: context.clientVersion,
+  }).catch((err) => console.error("Failed to record usage event:", err));
+}
 
 export async function POST(request: NextRequest) {
+  let reservation: TokenReservation | null = null;
+
   try {
     // 1. Auth: verify JWT
     const authUser = await resolveRequestUser(request);
@@ -20,12 +110,13 @@ export async function POST(request: NextRequest) {
     }
 
     const userId = authUser.userId;
-    const userEmail = authUser.email;
-    const isAdmin = isAdminEmail(userEmail);
+    const isAdmin = await hasRole(userId, "admin");
 
     // 2. Subscription check (skip for admin)
     let tokenLimit = Infinity;
     let tierName = "admin";
+    let tier: SubscriptionTier | null = null;
+    let graceUntil: string | null = null;
 
     if (!isAdmin) {
       const subscription = await getActiveSubscription(userId);
@@ -35,21 +126,30 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         );
       }
-      tokenLimit = getTierTokenLimit(subscription.tier);
+      // A past_due subscription in its grace period gets a reduced quota
+      tokenLimit = getSubscriptionTokenLimit(subscription);
+      graceUntil = subscription.graceUntil;
       tierName = subscription.tier;
+      tier = subscription.tier;
     }
 
-    // 3. Quota check (skip for admin)
-    let currentUsage = { totalTokens: 0, period: "" };
+    // 3. Quota check: tier quota first, then purchased credits (skip for admin)
+    let currentUsage = { totalTokens: 0, creditTokens: 0, period: "" };
+    let creditBalance = 0;
     if (!isAdmin) {
       currentUsage = await getUsage(userId);
-      if (currentUsage.totalTokens >= tokenLimit) {
+      creditBalance = await getCreditBalance(userId);
+      const available =
+        tokenLimit + currentUsage.creditTokens + creditBalance;
+      if (currentUsage.totalTokens >= available) {
         return NextResponse.json(
           {
             error: "Monthly token quota exceeded",
             code: "QUOTA_EXCEEDED",
             tokens_used: currentUsage.totalTokens,
             tokens_limit: tokenLimit,
+            credit_tokens_remaining: creditBalance,
+            grace_until: graceUntil,
           },
           { status: 429 }
         );
@@ -58,126 +158,168 @@ export async function POST(request: NextRequest) {
 
     // 4. Parse and validate request
     const body = await request.json();
-    const { messages, stream } = body;
+    const { stream } = body;
 
-    if (!messages || !Array.isArray(messages)) {
-      return NextResponse.json(
-        { error: "messages are required" },
-        { status: 400 }
-      );
+    const messages = validateChatMessages(body.messages);
+    if (!messages.ok) {
+      return NextResponse.json({ error: messages.error }, { status: 400 });
+    }
+
+    const tools = resolveRequestedTools(body.tools);
+    if (!tools.ok) {
+      return NextResponse.json({ error: tools.error }, { status: 400 });
     }
 
-    const MAX_MESSAGES = 50;
-    const MAX_CONTENT_LENGTH = 10_000;
-    const ALLOWED_ROLES = new Set(["user", "assistant"]);
+    const toolChoice = validateToolChoice(body.tool_choice, tools.value);
+    if (!toolChoice.ok) {
+      return NextResponse.json({ error: toolChoice.error }, { status: 400 });
+    }
 
-    if (messages.length > MAX_MESSAGES) {
+    const model = selectModel(body.model, tier);
+    if (!model.ok) {
       return NextResponse.json(
-        { error: `Too many messages. Maximum allowed is ${MAX_MESSAGES}.` },
-        { status: 400 }
+        { error: model.error, code: model.code },
+        { status: model.code === "MODEL_NOT_ALLOWED" ? 403 : 400 }
       );
     }
 
-    const validatedMessages = [];
-    for (const msg of messages) {
-      if (typeof msg.content !== "string") {
-        return NextResponse.json(
-          { error: "Each message must have a string content field." },
-          { status: 400 }
-        );
-      }
-      if (!ALLOWED_ROLES.has(msg.role)) {
-        // Strip messages with disallowed roles (e.g. "system")
-        continue;
-      }
-      if (msg.content.length > MAX_CONTENT_LENGTH) {
+    // 5. Reserve quota for the prompt plus max_tokens before calling upstream,
+    // shrinking max_tokens if only part of it is left (skip for admin)
+    const promptEstimate = estimatePromptTokens(messages.value, tools.value);
+    let maxTokens = Math.min(body.max_tokens ?? 2048, 4096);
+
+    if (!isAdmin) {
+      reservation = await reserveTokens(
+        userId,
+        tokenLimit,
+        promptEstimate + maxTokens,
+        promptEstimate + MIN_COMPLETION_TOKENS
+      );
+      if (!reservation) {
         return NextResponse.json(
           {
-            error: `Message content exceeds maximum length of ${MAX_CONTENT_LENGTH} characters.`,
+            error: "Monthly token quota exceeded",
+            code: "QUOTA_EXCEEDED",
+            tokens_used: currentUsage.totalTokens,
+            tokens_limit: tokenLimit,
+            credit_tokens_remaining: creditBalance,
+            grace_until: graceUntil,
           },
-          { status: 400 }
+          { status: 429 }
         );
       }
-      validatedMessages.push({ role: msg.role, content: msg.content });
+      maxTokens = reservation.tokens - promptEstimate;
     }
 
-    // 5. Forward to OpenAI
+    // 6. Forward upstream, failing over to fallback models on provider errors
     const isStreaming = stream ?? false;
+    const startedAt = Date.now();
 
-    const openaiBody = {
-      model: MANAGED_OPENAI_MODEL,
-      messages: validatedMessages,
-      temperature: body.temperature ?? 0.5,
-      max_tokens: Math.min(body.max_tokens ?? 2048, 4096),
-      stream: isStreaming,
-      ...(isStreaming ? { stream_options: { include_usage: true } } : {}),
-    };
-
-    const openaiResponse = await fetch(OPENAI_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+    const upstream = await requestWithFailover(
+      buildModelChain(model.value, tier),
+      {
+        messages: messages.value,
+        tools: tools.value,
+        toolChoice: toolChoice.value,
+        temperature: body.temperature ?? 0.5,
+        maxTokens,
+        stream: isStreaming,
       },
-      body: JSON.stringify(openaiBody),
-    });
+      request.signal
+    );
 
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      console.error("OpenAI API error:", openaiResponse.status, errorText);
+    if (!upstream.ok) {
+      await chargeUsage(
+        {
+          userId,
+          model: model.value.key,
+          streaming: isStreaming,
+          startedAt,
+          clientVersion: getClientVersion(request),
+        },
+        reservation,
+        null,
+        "failed"
+      );
+      reservation = null;
       return NextResponse.json(
         { error: "AI service temporarily unavailable" },
         { status: 502 }
       );
     }
 
-    // 6. Handle streaming response
-    if (stream && openaiResponse.body) {
-      const encoder = new TextEncoder();
-      const decoder = new TextDecoder();
-
-      let promptTokens = 0;
-      let completionTokens = 0;
-
-      const transformStream = new TransformStream({
-        async transform(chunk, controller) {
-          const text = decoder.decode(chunk);
-          controller.enqueue(chunk);
-
-          // Parse SSE lines to capture usage from the final chunk
-          const lines = text.split("\n");
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-            const jsonStr = line.slice(6).trim();
-            if (jsonStr === "[DONE]") continue;
-            try {
-              const parsed = JSON.parse(jsonStr);
-              if (parsed.usage) {
-                promptTokens = parsed.usage.prompt_tokens ?? 0;
-                completionTokens = parsed.usage.completion_tokens ?? 0;
-              }
-            } catch {
-              // Not valid JSON, skip
-            }
-          }
-        },
-        async flush() {
-          // Record usage after stream completes
-          if (promptTokens > 0 || completionTokens > 0) {
-            await recordUsage(userId, promptTokens, completionTokens).catch(
-              (err) => console.error("Failed to record usage:", err)
-            );
-          }
+    const { response: upstreamResponse, provider } = upstream;
+    const servedModel = upstream.model.key;
+    const context: ProxyRequestContext = {
+      userId,
+      model: servedModel,
+      streaming: isStreaming,
+      startedAt,
+      clientVersion: getClientVersion(request),
+    };
+
+    // 7. Handle streaming response
+    if (isStreaming && upstreamResponse.body) {
+      const streamReservation = reservation;
+      const translator = provider.createStreamTranslator(servedModel);
+      let settled = false;
+
+      const settle = async (
+        usage: TokenUsage | null,
+        status: UsageEventStatus
+      ) => {
+        if (settled) return;
+        settled = true;
+        if (keepAlive) clearInterval(keepAlive);
+        await chargeUsage(context, streamReservation, usage, status);
+      };
+
+      // A long generation can outlast the reservation's expiry, after which
+      // other requests could spend the tokens it holds; renew it until settled.
+      const keepAlive =
+        streamReservation &&
+        setInterval(() => {
+          extendReservation(streamReservation).catch((err) =>
+            console.error("Failed to extend token reservation:", err)
+          );
+        }, RESERVATION_RENEW_INTERVAL_MS);
+
+      // A client disconnect cancels the stream before it finishes; charge what
+      // the provider has reported so far, or at least the prompt already sent.
+      request.signal.addEventListener(
+        "abort",
+        () => {
+          void settle(
+            translator.usage() ?? {
+              promptTokens: promptEstimate,
+              completionTokens: 0,
+            },
+            "aborted"
+          );
         },
-      });
+        { once: true }
+      );
 
-      const stream2 = openaiResponse.body.pipeThrough(transformStream);
+      // Usage is settled after the stream completes, or with whatever was
+      // generated before the upstream connection failed
+      const normalizedStream = normalizeEventStream(
+        upstreamResponse.body,
+        translator,
+        (usage) => settle(usage, "completed"),
+        (error, usage) => {
+          console.error("Upstream stream failed:", error);
+          return settle(
+            usage ?? { promptTokens: promptEstimate, completionTokens: 0 },
+            request.signal.aborted ? "aborted" : "failed"
+          );
+        }
+      );
 
       const tokensRemaining = isAdmin
         ? -1
         : Math.max(0, tokenLimit - currentUsage.totalTokens);
 
-      return new Response(stream2, {
+      return new Response(normalizedStream, {
         headers: {
           "Content-Type": "text/event-stream",
           "Cache-Control": "no-cache",
@@ -186,26 +328,33 @@ export async function POST(request: NextRequest) {
           "X-Tokens-Limit": String(tokenLimit === Infinity ? -1 : tokenLimit),
           "X-Tokens-Remaining": String(tokensRemaining),
           "X-Tier": tierName,
+          "X-Model": servedModel,
+          ...(graceUntil ? { "X-Grace-Until": graceUntil } : {}),
+          // Streamed usage is only known once the body ends, so the warning
+          // reflects the quota consumed before this request
+          ...quotaWarningHeaders(currentUsage, tokenLimit),
         },
       });
     }
 
-    // 7. Handle non-streaming response
-    const responseData = await openaiResponse.json();
+    // 8. Handle non-streaming response
+    const responseData = provider.toCompletion(
+      await upstreamResponse.json(),
+      servedModel
+    );
 
-    // Record usage from response
-    const usage = responseData.usage;
-    if (usage) {
-      await recordUsage(
-        userId,
-        usage.prompt_tokens ?? 0,
-        usage.completion_tokens ?? 0
-      ).catch((err) => console.error("Failed to record usage:", err));
-    }
+    // Settle the reservation with the usage from the response
+    await chargeUsage(
+      context,
+      reservation,
+      toTokenUsage(responseData.usage),
+      "completed"
+    );
+    reservation = null;
 
     // Get updated usage for headers
     const updatedUsage = isAdmin
-      ? { totalTokens: 0 }
+      ? { totalTokens: 0, creditTokens: 0 }
       : await getUsage(userId);
 
     const tokensRemaining = isAdmin
@@ -218,10 +367,18 @@ export async function POST(request: NextRequest) {
         "X-Tokens-Limit": String(tokenLimit === Infinity ? -1 : tokenLimit),
         "X-Tokens-Remaining": String(tokensRemaining),
         "X-Tier": tierName,
+        "X-Model": servedModel,
+        ...(graceUntil ? { "X-Grace-Until": graceUntil } : {}),
+        ...quotaWarningHeaders(updatedUsage, tokenLimit),
       },
     });
   } catch (error) {
     console.error("AI proxy error:", error);
+    if (reservation) {
+      await releaseReservation(reservation).catch((err) =>
+        console.error("Failed to release token reservation:", err)
+      );
+    }
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
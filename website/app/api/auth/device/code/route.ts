@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEVICE_CODE_TTL_SECONDS,
+  createDeviceAuthorization,
+  formatUserCode,
+} from "@/lib/db/device-authorizations";
+import { getClientIp, getClientVersion } from "@/lib/client-info";
+
+// Starts a device authorization (RFC 8628 §3.1). The app shows the user code
+// and polls /api/auth/device/token until the user approves it on /activate.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const deviceName =
+      typeof body?.device_name === "string" ? body.device_name : null;
+
+    const { deviceCode, userCode, interval } = await createDeviceAuthorization({
+      deviceName,
+      clientVersion: getClientVersion(request),
+      ipAddress: getClientIp(request),
+    });
+
+    const verificationUri = `${process.env.NEXT_PUBLIC_APP_URL}/activate`;
+    const displayCode = formatUserCode(userCode);
+
+    return NextResponse.json({
+      device_code: deviceCode,
+      user_code: displayCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: `${verificationUri}?code=${displayCode}`,
+      expires_in: DEVICE_CODE_TTL_SECONDS,
+      interval,
+    });
+  } catch (error) {
+    console.error("Device code error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import {
+  buildSessionTokenResponse,
+  deviceLimitMessage,
+  getDeviceLimit,
+} from "@/lib/app-tokens";
+import { createAppSession } from "@/lib/db/app-sessions";
+import { pollDeviceAuthorization } from "@/lib/db/device-authorizations";
+import {
+  clientSupportsRefresh,
+  getClientIp,
+  getClientVersion,
+} from "@/lib/client-info";
+
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+
+// Error codes are the ones RFC 8628 §3.5 defines, so standard device flow
+// clients can drive the polling loop.
+function pollError(error: string, description: string) {
+  return NextResponse.json(
+    { error, error_description: description },
+    { status: 400 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { device_code, grant_type } = await request.json();
+
+    if (grant_type !== undefined && grant_type !== DEVICE_CODE_GRANT_TYPE) {
+      return pollError(
+        "unsupported_grant_type",
+        `grant_type must be ${DEVICE_CODE_GRANT_TYPE}`
+      );
+    }
+
+    if (typeof device_code !== "string" || !device_code) {
+      return pollError("invalid_request", "device_code is required");
+    }
+
+    const result = await pollDeviceAuthorization(device_code);
+
+    switch (result.status) {
+      case "pending":
+        return pollError(
+          "authorization_pending",
+          "The sign-in request has not been approved yet"
+        );
+      case "slow_down":
+        return pollError(
+          "slow_down",
+          "Polling too frequently; increase the interval by 5 seconds"
+        );
+      case "denied":
+        return pollError("access_denied", "The sign-in request was denied");
+      case "expired":
+        return pollError(
+          "expired_token",
+          "The device code has expired; start a new sign-in"
+        );
+      case "invalid":
+        return pollError("invalid_grant", "Unknown or already used device code");
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.id, result.userId),
+    });
+    if (!user) {
+      return pollError("invalid_grant", "Unknown or already used device code");
+    }
+
+    // Approval checked the cap, but another install may have signed in since
+    const deviceLimit = await getDeviceLimit(user.id);
+    const created = await createAppSession(
+      user.id,
+      {
+        deviceName: result.authorization.deviceName,
+        clientVersion: getClientVersion(request) ?? result.authorization.clientVersion,
+        ipAddress: getClientIp(request),
+      },
+      deviceLimit
+    );
+    if (!created) {
+      return pollError("access_denied", deviceLimitMessage(deviceLimit!));
+    }
+
+    return NextResponse.json(
+      await buildSessionTokenResponse(
+        user,
+        created.session,
+        created.refreshToken,
+        clientSupportsRefresh(request)
+      )
+    );
+  } catch (error) {
+    console.error("Device token error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
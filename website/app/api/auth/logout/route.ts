@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import {
+  revokeSession,
+  revokeSessionByRefreshToken,
+} from "@/lib/db/app-sessions";
+
+// Ends an app session, identified either by its refresh token or by the access
+// token it was issued. Succeeds even if the session was already gone.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.refresh_token === "string" && body.refresh_token) {
+      await revokeSessionByRefreshToken(body.refresh_token);
+      return NextResponse.json({ success: true });
+    }
+
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.sessionId) {
+      return NextResponse.json(
+        { error: "refresh_token or an app access token is required" },
+        { status: 400 }
+      );
+    }
+
+    await revokeSession(authUser.userId, authUser.sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { MIN_PASSWORD_LENGTH } from "@/lib/password-reset";
+import { sendEmail } from "@/lib/email";
+import { revokeUserSessions } from "@/lib/db/app-sessions";
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { currentPassword, newPassword } = await request.json();
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: "Current and new password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.id, authUser.userId),
+    });
+
+    if (!user?.passwordHash) {
+      return NextResponse.json(
+        { error: "This account signs in with a third-party provider and has no password" },
+        { status: 400 }
+      );
+    }
+
+    const valid = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!valid) {
+      return NextResponse.json(
+        { error: "Current password is incorrect" },
+        { status: 403 }
+      );
+    }
+
+    // tokensValidAfter revokes legacy tokens, which have no session to revoke
+    await db
+      .update(authUsers)
+      .set({
+        passwordHash: await bcrypt.hash(newPassword, 12),
+        tokensValidAfter: new Date(),
+      })
+      .where(eq(authUsers.id, user.id));
+
+    // Sign out every other app install; the one making the change stays in
+    await revokeUserSessions(user.id, authUser.sessionId);
+
+    await sendEmail(user.email, "password_changed", { name: user.name }).catch(
+      (err) => console.error("Failed to queue password changed email:", err)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Password change error:", error);
+    return NextResponse.json(
+      { error: "Failed to change password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { rateLimit } from "@/lib/rate-limit";
+import { sendPasswordResetEmail } from "@/lib/password-reset";
+
+const FORGOT_LIMIT = 3;
+const FORGOT_WINDOW_MS = 60 * 60_000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+    const normalizedEmail = email?.toLowerCase().trim();
+
+    if (!normalizedEmail) {
+      return NextResponse.json(
+        { error: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    const { success } = await rateLimit(
+      `password-forgot:${normalizedEmail}`,
+      FORGOT_LIMIT,
+      FORGOT_WINDOW_MS
+    );
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many reset emails requested. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.email, normalizedEmail),
+    });
+
+    // Same response whether or not the account exists, so this can't be used
+    // to discover registered addresses. Social-only accounts have no password
+    // to reset.
+    if (user?.passwordHash) {
+      await sendPasswordResetEmail({ email: user.email, name: user.name });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Password forgot error:", error);
+    return NextResponse.json(
+      { error: "Failed to send reset email" },
+      { status: 500 }
+    );
+  }
+}
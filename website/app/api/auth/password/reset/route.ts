@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MIN_PASSWORD_LENGTH, resetPassword } from "@/lib/password-reset";
+import { sendEmail } from "@/lib/email";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, token, password } = await request.json();
+
+    if (!email || !token || !password) {
+      return NextResponse.json(
+        { error: "Email, token and password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = await resetPassword(email, token, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: "This reset link is invalid or has expired", code: "INVALID_TOKEN" },
+        { status: 400 }
+      );
+    }
+
+    await sendEmail(user.email, "password_changed", { name: user.name }).catch(
+      (err) => console.error("Failed to queue password changed email:", err)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Password reset error:", error);
+    return NextResponse.json(
+      { error: "Failed to reset password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { MIN_PASSWORD_LENGTH } from "@/lib/password-reset";
+import { sendEmail } from "@/lib/email";
+
+// Adds a password to an account created through a social provider, so it can
+// also sign in with email and password (e.g. in the app). Accounts that
+// already have one use /api/auth/password/change.
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { newPassword } = await request.json();
+
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const [user] = await db
+      .update(authUsers)
+      .set({ passwordHash: await bcrypt.hash(newPassword, 12) })
+      .where(
+        and(eq(authUsers.id, authUser.userId), isNull(authUsers.passwordHash))
+      )
+      .returning();
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          error: "This account already has a password. Use change password instead.",
+          code: "PASSWORD_ALREADY_SET",
+        },
+        { status: 409 }
+      );
+    }
+
+    await sendEmail(user.email, "password_added", { name: user.name }).catch(
+      (err) => console.error("Failed to queue password added email:", err)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Password set error:", error);
+    return NextResponse.json(
+      { error: "Failed to set password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { buildSessionTokenResponse } from "@/lib/app-tokens";
+import { rotateRefreshToken } from "@/lib/db/app-sessions";
+import { getClientIp, getClientVersion } from "@/lib/client-info";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { refresh_token } = await request.json();
+
+    if (typeof refresh_token !== "string" || !refresh_token) {
+      return NextResponse.json(
+        { error: "refresh_token is required" },
+        { status: 400 }
+      );
+    }
+
+    const rotated = await rotateRefreshToken(refresh_token, {
+      clientVersion: getClientVersion(request),
+      ipAddress: getClientIp(request),
+    });
+
+    if (!rotated) {
+      return NextResponse.json(
+        { error: "Session expired. Please sign in again.", code: "INVALID_REFRESH_TOKEN" },
+        { status: 401 }
+      );
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.id, rotated.session.userId),
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Session expired. Please sign in again.", code: "INVALID_REFRESH_TOKEN" },
+        { status: 401 }
+      );
+    }
+
+    // Only clients that refresh their tokens call this
+    return NextResponse.json(
+      await buildSessionTokenResponse(user, rotated.session, rotated.refreshToken, true)
+    );
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import bcrypt from "bcryptjs";
 import { eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { authUsers } from "@/lib/db/schema";
+import { sendVerificationEmail } from "@/lib/email-verification";
+import { MIN_PASSWORD_LENGTH } from "@/lib/password-reset";
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,9 +18,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (password.length < 8) {
+    if (password.length < MIN_PASSWORD_LENGTH) {
       return NextResponse.json(
-        { error: "Password must be at least 8 characters" },
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
         { status: 400 }
       );
     }
@@ -38,7 +40,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error:
-            "An account with this email was created via a third-party provider. Please sign in using your original sign-in method.",
+            "An account with this email was created via a third-party provider. Sign in with that provider, then add a password from your account page.",
+          code: "SOCIAL_ACCOUNT_EXISTS",
         },
         { status: 409 }
       );
@@ -52,6 +55,11 @@ export async function POST(request: NextRequest) {
       passwordHash,
     });
 
+    await sendVerificationEmail({
+      email: normalizedEmail,
+      name: name || null,
+    }).catch((err) => console.error("Failed to send verification email:", err));
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Registration error:", error);
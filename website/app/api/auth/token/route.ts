@@ -3,34 +3,22 @@ import bcrypt from "bcryptjs";
 import { db } from "@/lib/db";
 import { authUsers } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { SignJWT } from "jose";
-import { isAdminEmail } from "@/lib/auth-utils";
-
-function getJwtSecret() {
-  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
-  if (!secret) {
-    throw new Error(
-      "JWT secret is not configured. Set AUTH_SECRET or NEXTAUTH_SECRET environment variable."
-    );
-  }
-  return new TextEncoder().encode(secret);
-}
-
-async function issueJWT(payload: { sub: string; email: string; name?: string | null }) {
-  return new SignJWT({
-    sub: payload.sub,
-    email: payload.email,
-    name: payload.name ?? null,
-  })
-    .setProtectedHeader({ alg: "HS256" })
-    .setIssuedAt()
-    .setExpirationTime("30d")
-    .sign(getJwtSecret());
-}
+import {
+  buildSessionTokenResponse,
+  deviceLimitMessage,
+  getDeviceLimit,
+} from "@/lib/app-tokens";
+import { createAppSession } from "@/lib/db/app-sessions";
+import {
+  clientSupportsRefresh,
+  getClientIp,
+  getClientVersion,
+} from "@/lib/client-info";
+import { isTwoFactorEnabled, verifySecondFactor } from "@/lib/two-factor";
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    const { email, password, otp, device_name } = await request.json();
     const normalizedEmail = email?.toLowerCase().trim();
 
     if (!normalizedEmail || !password) {
@@ -40,39 +28,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (isAdminEmail(normalizedEmail)) {
-      const hash = process.env.ADMIN_PASSWORD_HASH;
-      if (!hash) {
-        return NextResponse.json(
-          { error: "Admin account is not configured" },
-          { status: 500 }
-        );
-      }
-
-      const valid = await bcrypt.compare(password, hash);
-      if (!valid) {
-        return NextResponse.json(
-          { error: "Invalid credentials" },
-          { status: 401 }
-        );
-      }
-
-      const jwt = await issueJWT({
-        sub: `admin:${normalizedEmail}`,
-        email: normalizedEmail,
-        name: "Admin",
-      });
-
-      return NextResponse.json({
-        token: jwt,
-        user: {
-          id: `admin:${normalizedEmail}`,
-          email: normalizedEmail,
-          name: "Admin",
-        },
-      });
-    }
-
     const user = await db.query.authUsers.findFirst({
       where: eq(authUsers.email, normalizedEmail),
     });
@@ -92,20 +47,78 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const jwt = await issueJWT({
-      sub: user.id,
-      email: user.email,
-      name: user.name,
-    });
+    if (isTwoFactorEnabled(user)) {
+      if (!otp) {
+        return NextResponse.json(
+          {
+            error: "Enter the code from your authenticator app",
+            code: "TWO_FACTOR_REQUIRED",
+          },
+          { status: 401 }
+        );
+      }
+
+      if (typeof otp !== "string" || !(await verifySecondFactor(user, otp))) {
+        return NextResponse.json(
+          {
+            error: "Invalid authentication code",
+            code: "INVALID_TWO_FACTOR_CODE",
+          },
+          { status: 401 }
+        );
+      }
+    }
 
-    return NextResponse.json({
-      token: jwt,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
+    if (user.deletionScheduledFor) {
+      return NextResponse.json(
+        {
+          error: "This account is scheduled for deletion. Sign in on the website to keep it.",
+          code: "ACCOUNT_PENDING_DELETION",
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!user.emailVerified) {
+      return NextResponse.json(
+        {
+          error: "Please verify your email address before signing in",
+          code: "EMAIL_NOT_VERIFIED",
+        },
+        { status: 403 }
+      );
+    }
+
+    const deviceLimit = await getDeviceLimit(user.id);
+    const created = await createAppSession(
+      user.id,
+      {
+        deviceName: typeof device_name === "string" ? device_name : null,
+        clientVersion: getClientVersion(request),
+        ipAddress: getClientIp(request),
       },
-    });
+      deviceLimit
+    );
+
+    if (!created) {
+      return NextResponse.json(
+        {
+          error: deviceLimitMessage(deviceLimit!),
+          code: "DEVICE_LIMIT_REACHED",
+          device_limit: deviceLimit,
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      await buildSessionTokenResponse(
+        user,
+        created.session,
+        created.refreshToken,
+        clientSupportsRefresh(request)
+      )
+    );
   } catch (error) {
     console.error("Token issuance error:", error);
     return NextResponse.json(
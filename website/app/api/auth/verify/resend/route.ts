@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { rateLimit } from "@/lib/rate-limit";
+import { sendVerificationEmail } from "@/lib/email-verification";
+
+const RESEND_LIMIT = 3;
+const RESEND_WINDOW_MS = 60 * 60_000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+    const normalizedEmail = email?.toLowerCase().trim();
+
+    if (!normalizedEmail) {
+      return NextResponse.json(
+        { error: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    // Per address, on top of the per-IP limit in middleware, so one inbox
+    // can't be flooded from many IPs
+    const { success } = await rateLimit(
+      `verify-resend:${normalizedEmail}`,
+      RESEND_LIMIT,
+      RESEND_WINDOW_MS
+    );
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many verification emails requested. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await db.query.authUsers.findFirst({
+      where: eq(authUsers.email, normalizedEmail),
+    });
+
+    // Same response whether or not the account exists, so this can't be used
+    // to discover registered addresses
+    if (user && !user.emailVerified) {
+      await sendVerificationEmail({ email: user.email, name: user.name });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Verification resend error:", error);
+    return NextResponse.json(
+      { error: "Failed to send verification email" },
+      { status: 500 }
+    );
+  }
+}
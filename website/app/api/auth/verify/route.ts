@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyEmail } from "@/lib/email-verification";
+import { sendEmail } from "@/lib/email";
+
+// Opened from the link in the verification email, so it answers with a
+// redirect to the login page rather than JSON.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const email = searchParams.get("email");
+  const token = searchParams.get("token");
+  const loginUrl = new URL("/login", request.nextUrl.origin);
+
+  try {
+    const user = email && token ? await verifyEmail(email, token) : null;
+
+    if (!user) {
+      loginUrl.searchParams.set("error", "VerificationFailed");
+      return NextResponse.redirect(loginUrl);
+    }
+
+    await sendEmail(user.email, "welcome", { name: user.name }).catch((err) =>
+      console.error("Failed to queue welcome email:", err)
+    );
+
+    loginUrl.searchParams.set("verified", "1");
+    return NextResponse.redirect(loginUrl);
+  } catch (error) {
+    console.error("Email verification error:", error);
+    loginUrl.searchParams.set("error", "VerificationFailed");
+    return NextResponse.redirect(loginUrl);
+  }
+}
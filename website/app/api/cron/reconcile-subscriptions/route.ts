@@ -0,0 +1,37 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { reconcileSubscriptions } from "@/lib/subscription-reconciliation";
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get("dry_run") === "1";
+    const report = await reconcileSubscriptions({ dryRun });
+
+    console.log(
+      `Subscription reconciliation${dryRun ? " (dry run)" : ""}: ` +
+        `${report.stripeSubscriptions} checked, ${report.updated.length} updated, ` +
+        `${report.expired.length} expired, ${report.missing.length} missing, ` +
+        `${report.errors.length} errors`
+    );
+    for (const change of report.updated) {
+      console.log("Reconciled subscription:", JSON.stringify(change));
+    }
+    for (const missing of report.missing) {
+      console.warn("Stripe subscription has no local row:", JSON.stringify(missing));
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Subscription reconciliation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
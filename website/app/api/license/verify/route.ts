@@ -1,63 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Stripe from 'stripe'
 import bcrypt from 'bcryptjs'
-import { db } from '@/lib/db'
-import { users, authUsers } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
-import { getActiveSubscription } from '@/lib/db/subscription-repo'
-import { getUsage } from '@/lib/db/token-usage'
-import { getTierTokenLimit } from '@/lib/tiers'
+import { db } from '@/lib/db'
+import { authUsers } from '@/lib/db/schema'
+import {
+  activateReferralCredits,
+  findAccountByEmail,
+  getAccount,
+  getAccountUsage,
+  type Account,
+  type ReferralProfile,
+} from '@/lib/account'
+import {
+  getEndedSubscription,
+  type ActiveSubscription,
+} from '@/lib/db/subscription-repo'
 import { resolveRequestUser } from '@/lib/request-auth'
-import { isAdminEmail } from '@/lib/auth-utils'
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16',
-})
-
-function getPlanLookupKey(subscription: Stripe.Subscription): string {
-  return (
-    subscription.items.data.find(
-      (item) => typeof item.price?.lookup_key === 'string'
-    )?.price.lookup_key || 'unknown'
-  )
+import { hasRole } from '@/lib/roles'
+import { rateLimit } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/client-info'
+import { isTwoFactorEnabled, verifySecondFactor } from '@/lib/two-factor'
+
+const ADMIN_PASSWORD_LIMIT = 5
+const ADMIN_PASSWORD_WINDOW_MS = 60_000
+
+const ADMIN_RESPONSE = {
+  is_active: true,
+  plan: 'admin',
+  status: 'admin',
+  is_admin_email: true,
+  tier: 'max',
+  token_limit: -1,
+  tokens_used: 0,
+  tokens_remaining: -1,
+  message: 'Welcome back, admin!',
 }
 
-async function getReferralData(email: string) {
-  try {
-    const user = await db.query.users.findFirst({
-      where: eq(users.email, email),
-    })
-    if (user) {
-      return {
-        referral_code: user.referralCode,
-        referral_credits_days: user.referralCreditsDays,
-        referrals_count: user.referralsCount,
-      }
-    }
-  } catch (e) {
-    console.error('Error fetching referral data:', e)
+function getReferralData(referral: ReferralProfile | null | undefined) {
+  if (!referral) return {}
+  return {
+    referral_code: referral.referralCode,
+    referral_credits_days: referral.referralCreditsDays,
+    referrals_count: referral.referralsCount,
   }
-  return {}
 }
 
-async function getTokenUsageData(email: string) {
+async function getTokenUsageData(account: Account | null) {
+  if (!account) return {}
   try {
-    const authUser = await db.query.authUsers.findFirst({
-      where: eq(authUsers.email, email),
-    })
-    if (!authUser) return {}
-
-    const subscription = await getActiveSubscription(authUser.id)
-    if (!subscription) return {}
-
-    const usage = await getUsage(authUser.id)
-    const tokenLimit = getTierTokenLimit(subscription.tier)
+    const usage = await getAccountUsage(account.id, account.subscription)
+    if (!usage) return {}
 
     return {
-      tier: subscription.tier,
-      token_limit: tokenLimit,
-      tokens_used: usage.totalTokens,
-      tokens_remaining: Math.max(0, tokenLimit - usage.totalTokens),
+      tier: usage.tier,
+      token_limit: usage.tokenLimit,
+      tokens_used: usage.tokensUsed,
+      tokens_remaining: usage.tokensRemaining,
+      credit_tokens_remaining: usage.creditBalance,
+      usage_resets_at: usage.periodEnd,
+      grace_until: usage.graceUntil,
     }
   } catch (e) {
     console.error('Error fetching token usage data:', e)
@@ -65,34 +66,11 @@ async function getTokenUsageData(email: string) {
   return {}
 }
 
-async function getTokenUsageDataByUserId(userId: string) {
-  try {
-    const subscription = await getActiveSubscription(userId)
-    if (!subscription) return {}
-
-    const usage = await getUsage(userId)
-    const tokenLimit = getTierTokenLimit(subscription.tier)
-
-    return {
-      tier: subscription.tier,
-      token_limit: tokenLimit,
-      tokens_used: usage.totalTokens,
-      tokens_remaining: Math.max(0, tokenLimit - usage.totalTokens),
-    }
-  } catch (e) {
-    console.error('Error fetching token usage data:', e)
-  }
-  return {}
-}
-
-async function getAuthenticatedSubscriptionResponse(userId: string, email: string) {
-  const subscription = await getActiveSubscription(userId)
-  if (!subscription) {
-    return checkReferralCredits(email)
-  }
-
-  const referralData = await getReferralData(email)
-  const tokenData = await getTokenUsageDataByUserId(userId)
+async function getAccountSubscriptionResponse(
+  account: Account,
+  subscription: ActiveSubscription
+) {
+  const tokenData = await getTokenUsageData(account)
 
   return NextResponse.json({
     is_active: true,
@@ -100,35 +78,67 @@ async function getAuthenticatedSubscriptionResponse(userId: string, email: strin
     expires_at: subscription.currentPeriodEnd,
     status: subscription.status,
     is_admin_email: false,
-    message: 'Your subscription is active.',
-    ...referralData,
+    message: subscription.graceUntil
+      ? `Your last payment failed. Update your payment method by ${new Date(subscription.graceUntil).toLocaleDateString()} to keep using ezLander.`
+      : 'Your subscription is active.',
+    ...getReferralData(account.referral),
     ...tokenData,
   })
 }
 
+// A subscription canceled before its period ended keeps working until then
+async function getEndedSubscriptionResponse(account: Account) {
+  const subscription = await getEndedSubscription(account.id)
+  if (!subscription?.currentPeriodEnd) return null
+
+  const endDate = new Date(subscription.currentPeriodEnd)
+  if (endDate > new Date()) {
+    return NextResponse.json({
+      is_active: true,
+      plan: subscription.tier,
+      expires_at: endDate.toISOString(),
+      status: 'canceled',
+      is_admin_email: false,
+      message: `Your subscription is active until ${endDate.toLocaleDateString()}.`,
+      ...getReferralData(account.referral),
+    })
+  }
+
+  return NextResponse.json({
+    is_active: false,
+    plan: subscription.tier,
+    expires_at: endDate.toISOString(),
+    status: 'expired',
+    is_admin_email: false,
+    message: `Your subscription expired on ${endDate.toLocaleDateString()}. Please renew to continue using ezLander.`,
+  })
+}
+
+// The subscriptions table is kept in step with Stripe by the webhook, so the
+// account's subscription is the source of truth whichever way the user is found
+async function getSubscriptionResponse(account: Account | null) {
+  if (!account?.subscription) {
+    const ended = account ? await getEndedSubscriptionResponse(account) : null
+    return ended ?? checkReferralCredits(account)
+  }
+
+  return getAccountSubscriptionResponse(account, account.subscription)
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}))
     const email = typeof body?.email === 'string' ? body.email.toLowerCase().trim() : ''
     const password = typeof body?.password === 'string' ? body.password : undefined
+    const otp = typeof body?.otp === 'string' ? body.otp : undefined
     const authUser = await resolveRequestUser(request)
 
     if (authUser?.email) {
-      if (isAdminEmail(authUser.email)) {
-        return NextResponse.json({
-          is_active: true,
-          plan: 'admin',
-          status: 'admin',
-          is_admin_email: true,
-          tier: 'max',
-          token_limit: -1,
-          tokens_used: 0,
-          tokens_remaining: -1,
-          message: 'Welcome back, admin!',
-        })
+      if (await hasRole(authUser.userId, 'admin')) {
+        return NextResponse.json(ADMIN_RESPONSE)
       }
 
-      return await getAuthenticatedSubscriptionResponse(authUser.userId, authUser.email)
+      return await getSubscriptionResponse(await getAccount(authUser.userId))
     }
 
     if (!email) {
@@ -138,10 +148,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const adminEmail = isAdminEmail(email)
+    const account = await findAccountByEmail(email)
 
-    // Admin email bypass
-    if (adminEmail) {
+    // Admin accounts only unlock with their password, and their second factor
+    // when 2FA is on, as at /api/auth/token
+    if (account?.role === 'admin') {
       if (!password) {
         return NextResponse.json({
           is_active: false,
@@ -151,16 +162,35 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      const hash = process.env.ADMIN_PASSWORD_HASH
-      if (!hash) {
+      // The app polls this route, so it sits under the general API limit;
+      // password guesses get the same allowance as /api/auth/token
+      const { success } = await rateLimit(
+        `license-admin:${getClientIp(request)}`,
+        ADMIN_PASSWORD_LIMIT,
+        ADMIN_PASSWORD_WINDOW_MS
+      )
+      if (!success) {
         return NextResponse.json(
-          { error: 'Admin not configured', message: 'Admin account is not configured. Please contact support.' },
-          { status: 500 }
+          {
+            is_active: false,
+            is_admin_email: true,
+            message: 'Too many attempts. Please try again in a minute.',
+          },
+          { status: 429 }
         )
       }
 
-      const valid = await bcrypt.compare(password, hash)
-      if (!valid) {
+      const user = await db.query.authUsers.findFirst({
+        where: eq(authUsers.id, account.id),
+        columns: {
+          id: true,
+          email: true,
+          passwordHash: true,
+          totpSecret: true,
+          totpEnabledAt: true,
+        },
+      })
+      if (!user?.passwordHash || !(await bcrypt.compare(password, user.passwordHash))) {
         return NextResponse.json(
           {
             is_active: false,
@@ -171,97 +201,36 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      return NextResponse.json({
-        is_active: true,
-        plan: 'admin',
-        status: 'admin',
-        is_admin_email: true,
-        tier: 'max',
-        token_limit: -1,
-        tokens_used: 0,
-        tokens_remaining: -1,
-        message: 'Welcome back, admin!',
-      })
-    }
-
-    // Find customer by email
-    const customers = await stripe.customers.list({
-      email,
-      limit: 1,
-    })
-
-    if (customers.data.length === 0) {
-      // No Stripe customer — check referral credits
-      return await checkReferralCredits(email)
-    }
-
-    const customer = customers.data[0]
-
-    // Get active subscriptions
-    const subscriptions = await stripe.subscriptions.list({
-      customer: customer.id,
-      status: 'active',
-      limit: 1,
-    })
-
-    if (subscriptions.data.length === 0) {
-      // Check for canceled but still valid subscriptions
-      const canceledSubs = await stripe.subscriptions.list({
-        customer: customer.id,
-        status: 'canceled',
-        limit: 1,
-      })
-
-      if (canceledSubs.data.length > 0) {
-        const sub = canceledSubs.data[0]
-        const endDate = new Date(sub.current_period_end * 1000)
-
-        if (endDate > new Date()) {
-          const referralData = await getReferralData(email)
-          const tokenData = await getTokenUsageData(email)
-          return NextResponse.json({
-            is_active: true,
-            plan: getPlanLookupKey(sub),
-            expires_at: endDate.toISOString(),
-            status: 'canceled',
-            is_admin_email: false,
-            message: `Your subscription is active until ${endDate.toLocaleDateString()}.`,
-            ...referralData,
-            ...tokenData,
-          })
+      if (isTwoFactorEnabled(user)) {
+        if (!otp) {
+          return NextResponse.json(
+            {
+              is_active: false,
+              is_admin_email: true,
+              code: 'TWO_FACTOR_REQUIRED',
+              message: 'Enter the code from your authenticator app.',
+            },
+            { status: 401 }
+          )
         }
 
-        // Canceled and expired
-        return NextResponse.json({
-          is_active: false,
-          plan: getPlanLookupKey(sub),
-          expires_at: new Date(sub.current_period_end * 1000).toISOString(),
-          status: 'expired',
-          is_admin_email: false,
-          message: `Your subscription expired on ${new Date(sub.current_period_end * 1000).toLocaleDateString()}. Please renew to continue using ezLander.`,
-        })
+        if (!(await verifySecondFactor(user, otp))) {
+          return NextResponse.json(
+            {
+              is_active: false,
+              is_admin_email: true,
+              code: 'INVALID_TWO_FACTOR_CODE',
+              message: 'Invalid authentication code. Please try again.',
+            },
+            { status: 401 }
+          )
+        }
       }
 
-      // No active subscription — check referral credits
-      return await checkReferralCredits(email)
+      return NextResponse.json(ADMIN_RESPONSE)
     }
 
-    const subscription = subscriptions.data[0]
-    const plan = getPlanLookupKey(subscription)
-    const expiresAt = new Date(subscription.current_period_end * 1000)
-    const referralData = await getReferralData(email)
-    const tokenData = await getTokenUsageData(email)
-
-    return NextResponse.json({
-      is_active: true,
-      plan,
-      expires_at: expiresAt.toISOString(),
-      status: subscription.status,
-      is_admin_email: false,
-      message: 'Your subscription is active.',
-      ...referralData,
-      ...tokenData,
-    })
+    return await getSubscriptionResponse(account)
   } catch (error) {
     console.error('License verification error:', error)
     return NextResponse.json(
@@ -271,44 +240,25 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function checkReferralCredits(email: string) {
+async function checkReferralCredits(account: Account | null) {
   try {
-    const user = await db.query.users.findFirst({
-      where: eq(users.email, email),
-    })
+    const referral = account?.referral
+    const expiresAt = referral ? await activateReferralCredits(referral) : null
 
-    if (user && user.referralCreditsDays > 0) {
-      // First-time credit use: activate
-      if (!user.creditsActivatedAt) {
-        await db
-          .update(users)
-          .set({ creditsActivatedAt: new Date().toISOString() })
-          .where(eq(users.email, email))
-        user.creditsActivatedAt = new Date().toISOString()
-      }
-
-      const activatedAt = new Date(user.creditsActivatedAt)
-      const expiresAt = new Date(
-        activatedAt.getTime() + user.referralCreditsDays * 24 * 60 * 60 * 1000
-      )
-
-      if (expiresAt > new Date()) {
-        return NextResponse.json({
-          is_active: true,
-          plan: 'referral_credit',
-          expires_at: expiresAt.toISOString(),
-          status: 'referral_credit',
-          is_admin_email: false,
-          message: `You have ${user.referralCreditsDays} days of referral credit active.`,
-          referral_code: user.referralCode,
-          referral_credits_days: user.referralCreditsDays,
-          referrals_count: user.referralsCount,
-          tier: 'pro',
-          token_limit: 2000000,
-          tokens_used: 0,
-          tokens_remaining: 2000000,
-        })
-      }
+    if (referral && expiresAt) {
+      return NextResponse.json({
+        is_active: true,
+        plan: 'referral_credit',
+        expires_at: expiresAt.toISOString(),
+        status: 'referral_credit',
+        is_admin_email: false,
+        message: `You have ${referral.referralCreditsDays} days of referral credit active.`,
+        ...getReferralData(referral),
+        tier: 'pro',
+        token_limit: 2000000,
+        tokens_used: 0,
+        tokens_remaining: 2000000,
+      })
     }
   } catch (e) {
     console.error('Error checking referral credits:', e)
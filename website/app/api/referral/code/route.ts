@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { users } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
-import { generateReferralCode } from "@/lib/referral";
 import { verifyAuthToken, isValidEmail } from "@/lib/auth-utils";
+import { ensureReferralProfile } from "@/lib/account";
 
 export async function POST(req: NextRequest) {
   try {
@@ -24,39 +21,12 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const existing = await db.query.users.findFirst({
-      where: eq(users.email, email),
-    });
-
-    if (existing) {
-      return NextResponse.json({
-        referral_code: existing.referralCode,
-        referral_credits_days: existing.referralCreditsDays,
-        referrals_count: existing.referralsCount,
-      });
-    }
-
-    let code = generateReferralCode();
-    // Ensure uniqueness
-    let attempts = 0;
-    while (attempts < 10) {
-      const conflict = await db.query.users.findFirst({
-        where: eq(users.referralCode, code),
-      });
-      if (!conflict) break;
-      code = generateReferralCode();
-      attempts++;
-    }
-
-    await db.insert(users).values({
-      email,
-      referralCode: code,
-    });
+    const profile = await ensureReferralProfile({ id: auth.sub, email: auth.email });
 
     return NextResponse.json({
-      referral_code: code,
-      referral_credits_days: 0,
-      referrals_count: 0,
+      referral_code: profile.referralCode,
+      referral_credits_days: profile.referralCreditsDays,
+      referrals_count: profile.referralsCount,
     });
   } catch (error) {
     console.error("Error in referral code endpoint:", error);
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { users, referrals } from "@/lib/db/schema";
+import { referrals } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { verifyAuthToken } from "@/lib/auth-utils";
+import { getReferralProfile } from "@/lib/account";
 
 export const dynamic = "force-dynamic";
 
@@ -26,16 +27,14 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const user = await db.query.users.findFirst({
-      where: eq(users.email, email),
-    });
+    const user = await getReferralProfile(auth.sub);
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
     const referralHistory = await db.query.referrals.findMany({
-      where: eq(referrals.referrerEmail, email),
+      where: eq(referrals.referrerUserId, auth.sub),
     });
 
     return NextResponse.json({
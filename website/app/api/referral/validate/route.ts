@@ -1,8 +1,6 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { users } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
 import { REFERRAL_CAP } from "@/lib/referral";
+import { findReferralProfileByCode } from "@/lib/account";
 
 export const dynamic = "force-dynamic";
 
@@ -18,9 +16,7 @@ export async function GET(req: Request) {
       );
     }
 
-    const user = await db.query.users.findFirst({
-      where: eq(users.referralCode, code),
-    });
+    const user = await findReferralProfileByCode(code);
 
     if (!user) {
       return NextResponse.json({ valid: false });
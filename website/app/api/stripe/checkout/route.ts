@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { db } from '@/lib/db'
-import { users } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
 import { REFERRAL_CAP, REFERRED_TRIAL_DAYS } from '@/lib/referral'
 import { STRIPE_PLANS, type StripePlanKey } from '@/lib/stripe'
 import { verifyAuthToken } from '@/lib/auth-utils'
+import { isEmailVerified } from '@/lib/email-verification'
+import { findReferralProfileByCode } from '@/lib/account'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -24,6 +23,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await isEmailVerified(auth.sub))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address before subscribing', code: 'EMAIL_NOT_VERIFIED' },
+        { status: 403 }
+      )
+    }
+
     const { email: rawEmail, plan, referral_code } = await request.json()
     const email = rawEmail || auth.email
 
@@ -46,9 +52,7 @@ export async function POST(request: NextRequest) {
     // Validate referral code if provided
     let validReferralCode: string | null = null
     if (referral_code) {
-      const referrer = await db.query.users.findFirst({
-        where: eq(users.referralCode, referral_code),
-      })
+      const referrer = await findReferralProfileByCode(referral_code)
       if (referrer && referrer.referralsCount < REFERRAL_CAP) {
         validReferralCode = referral_code
       }
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { resolveRequestUser } from '@/lib/request-auth'
+import { getActiveSubscription } from '@/lib/db/subscription-repo'
+import { TOKEN_PACKS, isTokenPackKey } from '@/lib/stripe'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2023-10-16',
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request)
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { pack } = await request.json()
+
+    if (!isTokenPackKey(pack)) {
+      return NextResponse.json(
+        { error: `Invalid pack. Must be one of: ${Object.keys(TOKEN_PACKS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Credits only extend a subscription's quota; they can't replace one
+    const subscription = await getActiveSubscription(authUser.userId)
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Active subscription required', code: 'NO_SUBSCRIPTION' },
+        { status: 403 }
+      )
+    }
+
+    const packDetails = TOKEN_PACKS[pack]
+
+    const session = await stripe.checkout.sessions.create({
+      customer: subscription.stripeCustomerId ?? undefined,
+      customer_email: subscription.stripeCustomerId ? undefined : authUser.email,
+      mode: 'payment',
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price: packDetails.priceId,
+          quantity: 1,
+        },
+      ],
+      metadata: {
+        type: 'token_pack',
+        pack,
+        user_id: authUser.userId,
+      },
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/download?tokens=success`,
+      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/pricing?canceled=true`,
+    })
+
+    return NextResponse.json({ url: session.url })
+  } catch (error) {
+    console.error('Token pack checkout error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create checkout session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveRequestUser } from '@/lib/request-auth'
+import { isStripePlanKey, STRIPE_PLANS } from '@/lib/stripe'
+import { changePlan, planChangeRejectionResponse } from '@/lib/plan-change'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request)
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { plan, proration_date } = await request.json()
+
+    if (!isStripePlanKey(plan)) {
+      return NextResponse.json(
+        { error: `Invalid plan. Must be one of: ${Object.keys(STRIPE_PLANS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (proration_date !== undefined && !Number.isInteger(proration_date)) {
+      return NextResponse.json(
+        { error: 'proration_date must be the value returned by the preview' },
+        { status: 400 }
+      )
+    }
+
+    const result = await changePlan(authUser.userId, plan, proration_date)
+    if (result.status !== 'changed') return planChangeRejectionResponse(result)
+
+    console.log(`Plan ${result.direction} to ${result.plan} for user ${authUser.userId}`)
+
+    return NextResponse.json({
+      plan: result.plan,
+      change: result.direction,
+      effective_at: result.effectiveAt,
+      tier: result.tier,
+      token_limit: result.tokenLimit,
+    })
+  } catch (error) {
+    console.error('Plan change error:', error)
+    return NextResponse.json(
+      { error: 'Failed to change plan' },
+      { status: 500 }
+    )
+  }
+}
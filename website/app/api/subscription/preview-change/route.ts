@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveRequestUser } from '@/lib/request-auth'
+import { isStripePlanKey, STRIPE_PLANS } from '@/lib/stripe'
+import { planChangeRejectionResponse, previewPlanChange } from '@/lib/plan-change'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request)
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { plan } = await request.json()
+
+    if (!isStripePlanKey(plan)) {
+      return NextResponse.json(
+        { error: `Invalid plan. Must be one of: ${Object.keys(STRIPE_PLANS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const preview = await previewPlanChange(authUser.userId, plan)
+    if (preview.status !== 'ok') return planChangeRejectionResponse(preview)
+
+    return NextResponse.json({
+      plan: preview.plan,
+      change: preview.direction,
+      effective_at: preview.effectiveAt,
+      proration_date: preview.prorationDate,
+      proration_amount: preview.prorationAmount,
+      amount_due: preview.amountDue,
+      currency: preview.currency,
+    })
+  } catch (error) {
+    console.error('Plan change preview error:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview plan change' },
+      { status: 500 }
+    )
+  }
+}
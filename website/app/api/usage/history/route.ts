@@ -0,0 +1,140 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRequestUser } from "@/lib/request-auth";
+import { requireRole } from "@/lib/roles";
+import { getDailyUsage, getUsageEvents } from "@/lib/db/usage-events";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+function isValidDate(value: string): boolean {
+  return DATE_REGEX.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await resolveRequestUser(request);
+    if (!authUser?.userId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+
+    // Support can look up another user's history by id
+    let userId = authUser.userId;
+    const requestedUserId = searchParams.get("user_id");
+    if (requestedUserId && requestedUserId !== userId) {
+      const staff = await requireRole(request, "support");
+      if (staff.response) return staff.response;
+      userId = requestedUserId;
+    }
+
+    const to = searchParams.get("to") ?? daysAgo(0);
+    const from = searchParams.get("from") ?? daysAgo(DEFAULT_RANGE_DAYS - 1);
+
+    if (!isValidDate(from) || !isValidDate(to)) {
+      return NextResponse.json(
+        { error: "from and to must be dates in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+
+    const rangeDays =
+      (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000;
+    if (rangeDays < 0) {
+      return NextResponse.json(
+        { error: "from must not be after to" },
+        { status: 400 }
+      );
+    }
+    if (rangeDays >= MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const granularity = searchParams.get("granularity") ?? "event";
+    if (granularity !== "event" && granularity !== "day") {
+      return NextResponse.json(
+        { error: "granularity must be 'event' or 'day'" },
+        { status: 400 }
+      );
+    }
+
+    const rawLimit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(rawLimit)
+      ? Math.min(Math.max(rawLimit, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+    const cursor = searchParams.get("cursor");
+
+    if (granularity === "day") {
+      const { days, nextCursor } = await getDailyUsage(userId, {
+        from,
+        to,
+        limit,
+        cursor,
+      });
+
+      return NextResponse.json({
+        from,
+        to,
+        granularity,
+        days: days.map((day) => ({
+          date: day.date,
+          request_count: day.requestCount,
+          prompt_tokens: day.promptTokens,
+          completion_tokens: day.completionTokens,
+          total_tokens: day.totalTokens,
+        })),
+        next_cursor: nextCursor,
+      });
+    }
+
+    const { events, nextCursor } = await getUsageEvents(userId, {
+      from,
+      to,
+      limit,
+      cursor,
+    });
+
+    return NextResponse.json({
+      from,
+      to,
+      granularity,
+      events: events.map((event) => ({
+        id: event.id,
+        created_at: event.createdAt,
+        model: event.model,
+        prompt_tokens: event.promptTokens,
+        completion_tokens: event.completionTokens,
+        total_tokens: event.totalTokens,
+        latency_ms: event.latencyMs,
+        streaming: event.streaming,
+        status: event.status,
+        client_version: event.clientVersion,
+      })),
+      next_cursor: nextCursor,
+    });
+  } catch (error) {
+    console.error("Usage history query error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,10 +2,10 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import { getActiveSubscription } from "@/lib/db/subscription-repo";
-import { getUsage } from "@/lib/db/token-usage";
-import { getTierTokenLimit } from "@/lib/tiers";
+import { getAccountUsage } from "@/lib/account";
+import { getQuotaWarning } from "@/lib/quota-warnings";
 import { resolveRequestUser } from "@/lib/request-auth";
-import { isAdminEmail } from "@/lib/auth-utils";
+import { hasRole } from "@/lib/roles";
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,36 +17,56 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (isAdminEmail(authUser.email)) {
+    if (await hasRole(authUser.userId, "admin")) {
       return NextResponse.json({
         tier: "admin",
         period: "unlimited",
+        period_end: null,
+        resets_at: null,
         tokens_used: 0,
         tokens_limit: -1,
         tokens_remaining: -1,
+        credit_tokens_used: 0,
+        credit_tokens_remaining: 0,
         request_count: 0,
+        grace_until: null,
+        warning: null,
       });
     }
 
     const subscription = await getActiveSubscription(authUser.userId);
-    if (!subscription) {
+    const usage = await getAccountUsage(authUser.userId, subscription);
+    if (!usage) {
       return NextResponse.json(
         { error: "No active subscription", code: "NO_SUBSCRIPTION" },
         { status: 403 }
       );
     }
 
-    const usage = await getUsage(authUser.userId);
-    const tokenLimit = getTierTokenLimit(subscription.tier);
-    const tokensRemaining = Math.max(0, tokenLimit - usage.totalTokens);
+    const warning = getQuotaWarning(
+      usage.tokensUsed - usage.creditTokensUsed,
+      usage.tokenLimit
+    );
 
     return NextResponse.json({
-      tier: subscription.tier,
+      tier: usage.tier,
       period: usage.period,
-      tokens_used: usage.totalTokens,
-      tokens_limit: tokenLimit,
-      tokens_remaining: tokensRemaining,
+      period_end: usage.periodEnd,
+      resets_at: usage.periodEnd,
+      tokens_used: usage.tokensUsed,
+      tokens_limit: usage.tokenLimit,
+      tokens_remaining: usage.tokensRemaining,
+      credit_tokens_used: usage.creditTokensUsed,
+      credit_tokens_remaining: usage.creditBalance,
       request_count: usage.requestCount,
+      grace_until: usage.graceUntil,
+      warning: warning
+        ? {
+            threshold: warning.threshold,
+            percent_used: warning.percentUsed,
+            message: `You've used ${warning.percentUsed}% of your monthly token quota`,
+          }
+        : null,
     });
   } catch (error) {
     console.error("Usage query error:", error);
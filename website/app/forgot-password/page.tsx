@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [sent, setSent] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsLoading(true);
+    setErrorMsg("");
+
+    try {
+      const res = await fetch("/api/auth/password/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setErrorMsg(data.error || "Failed to send reset email.");
+        setIsLoading(false);
+        return;
+      }
+
+      setSent(true);
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setIsLoading(false);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Reset your password</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            We&apos;ll email you a link to choose a new one
+          </p>
+        </div>
+
+        {/* Card */}
+        <div className="glass rounded-2xl p-8">
+          {sent ? (
+            <p className="text-center text-gray-600 dark:text-gray-300">
+              If an account with a password exists for{" "}
+              <span className="font-medium">{email}</span>, a reset link is on
+              its way. It expires in 1 hour.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {errorMsg && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                  {errorMsg}
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium mb-1.5"
+                >
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                  placeholder="you@example.com"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {isLoading ? "Sending..." : "Send reset link"}
+              </button>
+            </form>
+          )}
+
+          <p className="mt-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Remembered it?{" "}
+            <Link
+              href="/login"
+              className="text-primary-500 hover:text-primary-600 font-medium"
+            >
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
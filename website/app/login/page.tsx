@@ -17,13 +17,44 @@ function LoginForm() {
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") || "/";
   const error = searchParams.get("error");
+  const verified = searchParams.get("verified") === "1";
+  const emailChanged = searchParams.get("email_changed") === "1";
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [otp, setOtp] = useState("");
+  const [needsOtp, setNeedsOtp] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState(
-    error === "CredentialsSignin" ? "Invalid email or password." : ""
+    error === "CredentialsSignin"
+      ? "Invalid email or password."
+      : error === "VerificationFailed"
+        ? "This confirmation link is invalid or has expired. Enter your email below to get a new one."
+        : error === "OAuthAccountNotLinked"
+          ? "That account isn't linked to your ezLander login. Sign in the way you originally did, then link it from your account page."
+          : error === "EmailChangeFailed"
+            ? "This email change link is invalid or has expired. Request the change again from your account page."
+            : error === "EmailInUse"
+              ? "Your email wasn't changed because another account now uses that address."
+              : ""
   );
+  const [resendStatus, setResendStatus] = useState<
+    "idle" | "sending" | "sent" | "error"
+  >("idle");
+
+  async function handleResend() {
+    setResendStatus("sending");
+    try {
+      const res = await fetch("/api/auth/verify/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      setResendStatus(res.ok ? "sent" : "error");
+    } catch {
+      setResendStatus("error");
+    }
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -33,11 +64,18 @@ function LoginForm() {
     const result = await signIn("credentials", {
       email,
       password,
+      ...(needsOtp ? { otp } : {}),
       redirect: false,
       callbackUrl,
     });
 
-    if (result?.error) {
+    if (result?.code === "two_factor_required") {
+      setNeedsOtp(true);
+      setIsLoading(false);
+    } else if (result?.code === "invalid_two_factor_code") {
+      setErrorMsg("Invalid authentication code.");
+      setIsLoading(false);
+    } else if (result?.error) {
       setErrorMsg("Invalid email or password.");
       setIsLoading(false);
     } else if (result?.url) {
@@ -138,9 +176,35 @@ function LoginForm() {
 
           {/* Email/Password Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
+            {verified && !errorMsg && (
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 text-sm">
+                Your email is confirmed. Sign in to continue.
+              </div>
+            )}
+
+            {emailChanged && !errorMsg && (
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 text-sm">
+                Your email address was changed. Sign in with your new address.
+              </div>
+            )}
+
             {errorMsg && (
               <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
                 {errorMsg}
+                {error === "VerificationFailed" && (
+                  <button
+                    type="button"
+                    onClick={handleResend}
+                    disabled={!email || resendStatus === "sending" || resendStatus === "sent"}
+                    className="block mt-2 font-medium underline disabled:opacity-50"
+                  >
+                    {resendStatus === "sent"
+                      ? "Confirmation email sent"
+                      : resendStatus === "error"
+                        ? "Couldn't send the email. Try again"
+                        : "Resend confirmation email"}
+                  </button>
+                )}
               </div>
             )}
 
@@ -163,12 +227,17 @@ function LoginForm() {
             </div>
 
             <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium mb-1.5"
-              >
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-1.5">
+                <label htmlFor="password" className="block text-sm font-medium">
+                  Password
+                </label>
+                <Link
+                  href="/forgot-password"
+                  className="text-sm text-primary-500 hover:text-primary-600"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <input
                 id="password"
                 type="password"
@@ -180,6 +249,29 @@ function LoginForm() {
               />
             </div>
 
+            {needsOtp && (
+              <div>
+                <label htmlFor="otp" className="block text-sm font-medium mb-1.5">
+                  Authentication code
+                </label>
+                <input
+                  id="otp"
+                  type="text"
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                  placeholder="123456"
+                />
+                <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">
+                  Enter the 6-digit code from your authenticator app, or one of
+                  your recovery codes.
+                </p>
+              </div>
+            )}
+
             <button
               type="submit"
               disabled={isLoading}
@@ -10,6 +10,10 @@ export default function RegisterPage() {
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState("");
+  const [registered, setRegistered] = useState(false);
+  const [resendStatus, setResendStatus] = useState<
+    "idle" | "sending" | "sent" | "error"
+  >("idle");
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -37,23 +41,74 @@ export default function RegisterPage() {
         return;
       }
 
-      // Auto sign-in after registration
-      const result = await signIn("credentials", {
-        email,
-        password,
-        redirect: false,
-        callbackUrl: "/",
-      });
-
-      if (result?.url) {
-        window.location.href = result.url;
-      }
+      // The account can't be used from the app or to subscribe until the
+      // address is confirmed, so point the user at their inbox
+      setRegistered(true);
+      setIsLoading(false);
     } catch {
       setErrorMsg("Something went wrong. Please try again.");
       setIsLoading(false);
     }
   }
 
+  async function handleResend() {
+    setResendStatus("sending");
+    try {
+      const res = await fetch("/api/auth/verify/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      setResendStatus(res.ok ? "sent" : "error");
+    } catch {
+      setResendStatus("error");
+    }
+  }
+
+  if (registered) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md text-center">
+          <div className="glass rounded-2xl p-8">
+            <h1 className="text-2xl font-bold mb-3">Check your email</h1>
+            <p className="text-gray-500 dark:text-gray-400 mb-6">
+              We sent a confirmation link to{" "}
+              <span className="font-medium text-gray-900 dark:text-white">
+                {email}
+              </span>
+              . Open it to activate your account.
+            </p>
+            <button
+              onClick={handleResend}
+              disabled={resendStatus === "sending" || resendStatus === "sent"}
+              className="text-sm text-primary-500 hover:text-primary-600 font-medium disabled:opacity-50"
+            >
+              {resendStatus === "sent"
+                ? "Email sent"
+                : resendStatus === "sending"
+                  ? "Sending..."
+                  : "Resend confirmation email"}
+            </button>
+            {resendStatus === "error" && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                Couldn&apos;t send the email. Please try again later.
+              </p>
+            )}
+            <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">
+              Already confirmed?{" "}
+              <Link
+                href="/login"
+                className="text-primary-500 hover:text-primary-600 font-medium"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4 py-12">
       <div className="w-full max-w-md">
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const email = searchParams.get("email") ?? "";
+  const token = searchParams.get("token") ?? "";
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState(
+    email && token ? "" : "This reset link is incomplete. Request a new one."
+  );
+  const [linkInvalid, setLinkInvalid] = useState(!email || !token);
+  const [done, setDone] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setErrorMsg("");
+
+    if (password.length < 8) {
+      setErrorMsg("Password must be at least 8 characters.");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setErrorMsg("Passwords don't match.");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/password/reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, token, password }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setErrorMsg(data.error || "Failed to reset password.");
+        setLinkInvalid(data.code === "INVALID_TOKEN");
+        setIsLoading(false);
+        return;
+      }
+
+      setDone(true);
+    } catch {
+      setErrorMsg("Something went wrong. Please try again.");
+    }
+    setIsLoading(false);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <span className="font-bold text-2xl">ezLander</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-2">Choose a new password</h1>
+          {email && (
+            <p className="text-gray-500 dark:text-gray-400">{email}</p>
+          )}
+        </div>
+
+        {/* Card */}
+        <div className="glass rounded-2xl p-8">
+          {done ? (
+            <div className="text-center">
+              <p className="text-gray-600 dark:text-gray-300 mb-6">
+                Your password has been reset. You&apos;ve been signed out of
+                the ezLander app everywhere; sign in again with your new
+                password.
+              </p>
+              <Link
+                href="/login"
+                className="inline-block py-3 px-6 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity"
+              >
+                Sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {errorMsg && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                  {errorMsg}
+                  {linkInvalid && (
+                    <Link
+                      href="/forgot-password"
+                      className="block mt-2 font-medium underline"
+                    >
+                      Get a new link
+                    </Link>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium mb-1.5"
+                >
+                  New password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  required
+                  minLength={8}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                  placeholder="••••••••"
+                />
+                <p className="mt-1 text-xs text-gray-400">
+                  Must be at least 8 characters
+                </p>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="confirmPassword"
+                  className="block text-sm font-medium mb-1.5"
+                >
+                  Confirm password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  required
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition-all"
+                  placeholder="••••••••"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || linkInvalid}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {isLoading ? "Saving..." : "Reset password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
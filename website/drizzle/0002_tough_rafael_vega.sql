@@ -0,0 +1,11 @@
+CREATE TABLE `token_reservations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`period_start` text NOT NULL,
+	`tokens` integer NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `token_reservations_user_period_idx` ON `token_reservations` (`user_id`,`period_start`);
\ No newline at end of file
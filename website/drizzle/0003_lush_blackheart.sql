@@ -0,0 +1,16 @@
+CREATE TABLE `usage_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer DEFAULT 0 NOT NULL,
+	`completion_tokens` integer DEFAULT 0 NOT NULL,
+	`total_tokens` integer DEFAULT 0 NOT NULL,
+	`latency_ms` integer NOT NULL,
+	`streaming` integer NOT NULL,
+	`status` text NOT NULL,
+	`client_version` text,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `usage_events_user_created_idx` ON `usage_events` (`user_id`,`created_at`);
\ No newline at end of file
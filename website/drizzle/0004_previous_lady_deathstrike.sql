@@ -0,0 +1,5 @@
+ALTER TABLE `subscriptions` ADD `current_period_start` text;--> statement-breakpoint
+ALTER TABLE `token_usage` ADD `period_end` text;--> statement-breakpoint
+-- Legacy rows were keyed by calendar month ("YYYY-MM"); give them explicit ISO bounds
+UPDATE `token_usage` SET `period_end` = strftime('%Y-%m-%dT%H:%M:%fZ', `period_start` || '-01', '+1 month'), `period_start` = strftime('%Y-%m-%dT%H:%M:%fZ', `period_start` || '-01') WHERE length(`period_start`) = 7;--> statement-breakpoint
+DELETE FROM `token_reservations` WHERE length(`period_start`) = 7;
@@ -0,0 +1,20 @@
+CREATE TABLE `token_credit_purchases` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`stripe_checkout_session_id` text NOT NULL,
+	`pack` text NOT NULL,
+	`tokens` integer NOT NULL,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `token_credit_purchases_stripe_checkout_session_id_unique` ON `token_credit_purchases` (`stripe_checkout_session_id`);--> statement-breakpoint
+CREATE TABLE `token_credits` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`purchased_tokens` integer DEFAULT 0 NOT NULL,
+	`consumed_tokens` integer DEFAULT 0 NOT NULL,
+	`updated_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `token_usage` ADD `credit_tokens` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `quota_notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`period_start` text NOT NULL,
+	`threshold` integer NOT NULL,
+	`tokens_used` integer NOT NULL,
+	`token_limit` integer NOT NULL,
+	`emailed_at` text,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `quota_notifications_user_period_threshold_idx` ON `quota_notifications` (`user_id`,`period_start`,`threshold`);
\ No newline at end of file
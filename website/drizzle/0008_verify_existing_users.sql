@@ -0,0 +1,2 @@
+-- Accounts created before email verification existed keep working: treat their addresses as verified
+UPDATE `auth_user` SET `emailVerified` = CAST(strftime('%s', 'now') AS INTEGER) * 1000 WHERE `emailVerified` IS NULL;
@@ -0,0 +1 @@
+ALTER TABLE `auth_user` ADD `tokens_valid_after` integer;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `app_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`refresh_token_hash` text NOT NULL,
+	`previous_refresh_token_hash` text,
+	`device_name` text,
+	`client_version` text,
+	`ip_address` text,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	`last_seen_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`revoked_at` text,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `app_sessions_user_idx` ON `app_sessions` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `device_authorizations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_code_hash` text NOT NULL,
+	`user_code` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`user_id` text,
+	`device_name` text,
+	`client_version` text,
+	`ip_address` text,
+	`poll_interval_seconds` integer NOT NULL,
+	`last_polled_at` text,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	`expires_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `device_authorizations_device_code_hash_unique` ON `device_authorizations` (`device_code_hash`);--> statement-breakpoint
+CREATE UNIQUE INDEX `device_authorizations_user_code_unique` ON `device_authorizations` (`user_code`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `recovery_codes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`code_hash` text NOT NULL,
+	`used_at` text,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `recovery_codes_user_idx` ON `recovery_codes` (`user_id`);--> statement-breakpoint
+ALTER TABLE `auth_user` ADD `totp_secret` text;--> statement-breakpoint
+ALTER TABLE `auth_user` ADD `totp_enabled_at` integer;--> statement-breakpoint
+ALTER TABLE `auth_user` ADD `totp_last_used_step` integer;
\ No newline at end of file
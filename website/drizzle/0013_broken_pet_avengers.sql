@@ -0,0 +1 @@
+ALTER TABLE `auth_user` ADD `deletion_scheduled_for` integer;
\ No newline at end of file
@@ -0,0 +1,24 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_referrals` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`referrer_email` text NOT NULL,
+	`referred_email` text NOT NULL,
+	`referrer_user_id` text,
+	`referred_user_id` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`created_at` text DEFAULT (current_timestamp) NOT NULL,
+	`completed_at` text,
+	FOREIGN KEY (`referrer_email`) REFERENCES `users`(`email`) ON UPDATE cascade ON DELETE no action,
+	FOREIGN KEY (`referrer_user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`referred_user_id`) REFERENCES `auth_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+-- Link existing referrals to the accounts that share their addresses
+INSERT INTO `__new_referrals`("id", "referrer_email", "referred_email", "referrer_user_id", "referred_user_id", "status", "created_at", "completed_at") SELECT "id", "referrer_email", "referred_email", (SELECT `id` FROM `auth_user` WHERE `auth_user`.`email` = `referrals`.`referrer_email`), (SELECT `id` FROM `auth_user` WHERE `auth_user`.`email` = `referrals`.`referred_email`), "status", "created_at", "completed_at" FROM `referrals`;--> statement-breakpoint
+DROP TABLE `referrals`;--> statement-breakpoint
+ALTER TABLE `__new_referrals` RENAME TO `referrals`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+ALTER TABLE `users` ADD `user_id` text REFERENCES auth_user(id);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_user_id_unique` ON `users` (`user_id`);--> statement-breakpoint
+-- Link existing referral profiles to their accounts
+UPDATE `users` SET `user_id` = (SELECT `id` FROM `auth_user` WHERE `auth_user`.`email` = `users`.`email`) WHERE `user_id` IS NULL;
@@ -0,0 +1 @@
+ALTER TABLE `auth_user` ADD `pending_email` text;
\ No newline at end of file
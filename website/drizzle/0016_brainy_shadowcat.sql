@@ -0,0 +1 @@
+ALTER TABLE `auth_user` ADD `role` text DEFAULT 'user' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `stripe_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`object_id` text,
+	`event_created_at` integer NOT NULL,
+	`payload` text NOT NULL,
+	`status` text NOT NULL,
+	`attempts` integer DEFAULT 1 NOT NULL,
+	`last_error` text,
+	`lease_expires_at` text,
+	`processed_at` text,
+	`received_at` text DEFAULT (current_timestamp) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `stripe_events_status_idx` ON `stripe_events` (`status`);--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `stripe_event_at` integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `subscriptions` ADD `past_due_since` text;--> statement-breakpoint
+-- Rows already past_due start their grace period from their last update
+UPDATE `subscriptions` SET `past_due_since` = `updated_at` WHERE `status` = 'past_due';
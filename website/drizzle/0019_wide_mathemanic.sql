@@ -0,0 +1,24 @@
+-- Backfill current_period_start for rows from before 0004 added it, as one
+-- billing interval before current_period_end. The interval isn't stored, so a
+-- period ending more than 31 days from now is taken to be yearly and any other
+-- monthly. Months are subtracted the way Stripe adds them: a day the target
+-- month lacks clamps to its last day (Mar 31 - 1 month = Feb 28/29).
+UPDATE `subscriptions`
+SET `current_period_start` = CASE
+  WHEN strftime('%d', `current_period_end`, '-12 months') = strftime('%d', `current_period_end`)
+    THEN strftime('%Y-%m-%dT%H:%M:%fZ', `current_period_end`, '-12 months')
+  ELSE date(`current_period_end`, 'start of month', '-12 months', '+1 month', '-1 day')
+    || strftime('T%H:%M:%fZ', `current_period_end`)
+END
+WHERE `current_period_start` IS NULL
+  AND `current_period_end` IS NOT NULL
+  AND julianday(`current_period_end`) - julianday('now') > 31;--> statement-breakpoint
+UPDATE `subscriptions`
+SET `current_period_start` = CASE
+  WHEN strftime('%d', `current_period_end`, '-1 month') = strftime('%d', `current_period_end`)
+    THEN strftime('%Y-%m-%dT%H:%M:%fZ', `current_period_end`, '-1 month')
+  ELSE date(`current_period_end`, 'start of month', '-1 month', '+1 month', '-1 day')
+    || strftime('T%H:%M:%fZ', `current_period_end`)
+END
+WHERE `current_period_start` IS NULL
+  AND `current_period_end` IS NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE `auth_user` ADD `totp_attempts` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `auth_user` ADD `totp_attempts_reset_at` integer;
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { randomUUID } from "crypto";
+import { db } from "@/lib/db";
+import {
+  accounts,
+  appSessions,
+  authUsers,
+  deviceAuthorizations,
+  emailOutbox,
+  quotaNotifications,
+  recoveryCodes,
+  referrals,
+  subscriptions,
+  tokenCreditPurchases,
+  tokenCredits,
+  tokenReservations,
+  tokenUsage,
+  usageEvents,
+  users,
+} from "@/lib/db/schema";
+import { eq, and, or, gt, isNull, isNotNull, lte, asc } from "drizzle-orm";
+import { revokeUserSessions } from "@/lib/db/app-sessions";
+import { deleteVerificationTokensFor } from "@/lib/db/verification-tokens";
+import { cancelSubscription, setCancelAtPeriodEnd } from "@/lib/stripe";
+import { sendEmail } from "@/lib/email";
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+// Subscriptions Stripe will still bill, and so must be cancelled
+const BILLABLE_STATUSES = ["active", "trialing", "past_due", "paused"];
+
+async function getBillableSubscriptionId(userId: string) {
+  const subscription = await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.userId, userId),
+  });
+  return subscription?.stripeSubscriptionId &&
+    BILLABLE_STATUSES.includes(subscription.status)
+    ? subscription.stripeSubscriptionId
+    : null;
+}
+
+/**
+ * Starts the grace period before an account is purged: signs out every app
+ * install and stops the subscription from renewing. Returns when the account
+ * will be deleted (the existing date if deletion was already requested).
+ */
+export async function scheduleAccountDeletion(user: {
+  id: string;
+  email: string;
+  name: string | null;
+}): Promise<Date> {
+  const scheduledFor = new Date(
+    Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60_000
+  );
+
+  // Sessions are revoked below; tokensValidAfter signs out legacy tokens,
+  // which have no session
+  const [scheduled] = await db
+    .update(authUsers)
+    .set({ deletionScheduledFor: scheduledFor, tokensValidAfter: new Date() })
+    .where(and(eq(authUsers.id, user.id), isNull(authUsers.deletionScheduledFor)))
+    .returning({ deletionScheduledFor: authUsers.deletionScheduledFor });
+
+  if (!scheduled) {
+    const existing = await db.query.authUsers.findFirst({
+      where: eq(authUsers.id, user.id),
+      columns: { deletionScheduledFor: true },
+    });
+    return existing?.deletionScheduledFor ?? scheduledFor;
+  }
+
+  await revokeUserSessions(user.id);
+
+  const subscriptionId = await getBillableSubscriptionId(user.id);
+  if (subscriptionId) {
+    await setCancelAtPeriodEnd(subscriptionId, true);
+  }
+
+  await sendEmail(user.email, "account_deletion_scheduled", {
+    name: user.name,
+    deleteAt: scheduledFor.toISOString(),
+  }).catch((err) =>
+    console.error("Failed to queue account deletion email:", err)
+  );
+
+  return scheduledFor;
+}
+
+/**
+ * Keeps an account whose deletion is still in its grace period and resumes
+ * its subscription. Returns false if no deletion was pending.
+ */
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const cancelled = await db
+    .update(authUsers)
+    .set({ deletionScheduledFor: null })
+    .where(
+      and(
+        eq(authUsers.id, userId),
+        gt(authUsers.deletionScheduledFor, new Date())
+      )
+    )
+    .returning({ id: authUsers.id });
+
+  if (cancelled.length === 0) return false;
+
+  const subscriptionId = await getBillableSubscriptionId(userId);
+  if (subscriptionId) {
+    await setCancelAtPeriodEnd(subscriptionId, false);
+  }
+
+  return true;
+}
+
+/**
+ * Removes the user's personal data. Referrals they were referred through are
+ * kept for the referrer's history with the address replaced; the rest is
+ * deleted. Rows are deleted explicitly rather than relying on FK cascades.
+ * Returns false if the account isn't (or is no longer) due for deletion.
+ */
+export async function purgeAccount(userId: string): Promise<boolean> {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+  });
+  if (!user?.deletionScheduledFor || user.deletionScheduledFor > new Date()) {
+    return false;
+  }
+
+  const subscriptionId = await getBillableSubscriptionId(userId);
+  if (subscriptionId) {
+    try {
+      await cancelSubscription(subscriptionId);
+    } catch (error) {
+      // Already gone on Stripe's side, e.g. cancelled from the dashboard
+      if ((error as { code?: string }).code !== "resource_missing") throw error;
+    }
+  }
+
+  const anonymizedEmail = `deleted-${randomUUID()}@deleted.invalid`;
+
+  await db.batch([
+    db
+      .update(referrals)
+      .set({ referredEmail: anonymizedEmail, referredUserId: null })
+      .where(
+        or(
+          eq(referrals.referredUserId, userId),
+          eq(referrals.referredEmail, user.email)
+        )
+      ),
+    db
+      .delete(referrals)
+      .where(
+        or(
+          eq(referrals.referrerUserId, userId),
+          eq(referrals.referrerEmail, user.email)
+        )
+      ),
+    db
+      .delete(users)
+      .where(or(eq(users.userId, userId), eq(users.email, user.email))),
+    deleteVerificationTokensFor(user.email),
+    deleteVerificationTokensFor(userId),
+    db.delete(emailOutbox).where(eq(emailOutbox.to, user.email)),
+    db.delete(accounts).where(eq(accounts.userId, userId)),
+    db.delete(appSessions).where(eq(appSessions.userId, userId)),
+    db
+      .delete(deviceAuthorizations)
+      .where(eq(deviceAuthorizations.userId, userId)),
+    db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId)),
+    db.delete(quotaNotifications).where(eq(quotaNotifications.userId, userId)),
+    db.delete(usageEvents).where(eq(usageEvents.userId, userId)),
+    db.delete(tokenReservations).where(eq(tokenReservations.userId, userId)),
+    db
+      .delete(tokenCreditPurchases)
+      .where(eq(tokenCreditPurchases.userId, userId)),
+    db.delete(tokenCredits).where(eq(tokenCredits.userId, userId)),
+    db.delete(tokenUsage).where(eq(tokenUsage.userId, userId)),
+    db.delete(subscriptions).where(eq(subscriptions.userId, userId)),
+    db.delete(authUsers).where(eq(authUsers.id, userId)),
+  ]);
+
+  return true;
+}
+
+/** Purges accounts whose deletion grace period has ended. */
+export async function processAccountDeletions(limit = 20) {
+  const due = await db
+    .select({ id: authUsers.id })
+    .from(authUsers)
+    .where(
+      and(
+        isNotNull(authUsers.deletionScheduledFor),
+        lte(authUsers.deletionScheduledFor, new Date())
+      )
+    )
+    .orderBy(asc(authUsers.deletionScheduledFor))
+    .limit(limit);
+
+  let purged = 0;
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id)) purged += 1;
+    } catch (error) {
+      console.error(`Account ${id} purge failed:`, error);
+    }
+  }
+
+  return { processed: due.length, purged };
+}
@@ -0,0 +1,137 @@
+import { db } from "@/lib/db";
+import {
+  accounts,
+  appSessions,
+  authUsers,
+  emailOutbox,
+  quotaNotifications,
+  referrals,
+  subscriptions,
+  tokenCreditPurchases,
+  tokenCredits,
+  tokenUsage,
+  usageEvents,
+  users,
+} from "@/lib/db/schema";
+import { eq, asc } from "drizzle-orm";
+
+/**
+ * Everything stored about a user, for a data export. Credentials and secrets
+ * (password hash, TOTP secret, OAuth and refresh tokens) are left out; only
+ * whether they exist is included.
+ */
+export async function exportAccountData(userId: string) {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+  });
+  if (!user) return null;
+
+  const [
+    linkedAccounts,
+    subscription,
+    usage,
+    credits,
+    creditPurchases,
+    events,
+    notifications,
+    sessions,
+    referralProfile,
+    referralsMade,
+    referredBy,
+    emails,
+  ] = await Promise.all([
+    db
+      .select({
+        provider: accounts.provider,
+        providerAccountId: accounts.providerAccountId,
+        type: accounts.type,
+        scope: accounts.scope,
+      })
+      .from(accounts)
+      .where(eq(accounts.userId, userId)),
+    db.query.subscriptions.findFirst({
+      where: eq(subscriptions.userId, userId),
+    }),
+    db
+      .select()
+      .from(tokenUsage)
+      .where(eq(tokenUsage.userId, userId))
+      .orderBy(asc(tokenUsage.periodStart)),
+    db.query.tokenCredits.findFirst({
+      where: eq(tokenCredits.userId, userId),
+    }),
+    db
+      .select()
+      .from(tokenCreditPurchases)
+      .where(eq(tokenCreditPurchases.userId, userId)),
+    db
+      .select()
+      .from(usageEvents)
+      .where(eq(usageEvents.userId, userId))
+      .orderBy(asc(usageEvents.createdAt)),
+    db
+      .select()
+      .from(quotaNotifications)
+      .where(eq(quotaNotifications.userId, userId)),
+    db
+      .select({
+        id: appSessions.id,
+        deviceName: appSessions.deviceName,
+        clientVersion: appSessions.clientVersion,
+        ipAddress: appSessions.ipAddress,
+        createdAt: appSessions.createdAt,
+        lastSeenAt: appSessions.lastSeenAt,
+        expiresAt: appSessions.expiresAt,
+        revokedAt: appSessions.revokedAt,
+      })
+      .from(appSessions)
+      .where(eq(appSessions.userId, userId)),
+    db.query.users.findFirst({ where: eq(users.userId, userId) }),
+    db.select().from(referrals).where(eq(referrals.referrerUserId, userId)),
+    // The referrer's address is their personal data, not this user's
+    db
+      .select({
+        status: referrals.status,
+        createdAt: referrals.createdAt,
+        completedAt: referrals.completedAt,
+      })
+      .from(referrals)
+      .where(eq(referrals.referredUserId, userId)),
+    db
+      .select({
+        template: emailOutbox.template,
+        subject: emailOutbox.subject,
+        status: emailOutbox.status,
+        createdAt: emailOutbox.createdAt,
+        sentAt: emailOutbox.sentAt,
+      })
+      .from(emailOutbox)
+      .where(eq(emailOutbox.to, user.email)),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      email_verified_at: user.emailVerified?.toISOString() ?? null,
+      image: user.image,
+      has_password: !!user.passwordHash,
+      two_factor_enabled_at: user.totpEnabledAt?.toISOString() ?? null,
+      deletion_scheduled_for: user.deletionScheduledFor?.toISOString() ?? null,
+    },
+    linked_accounts: linkedAccounts,
+    subscription: subscription ?? null,
+    token_usage: usage,
+    token_credits: credits ?? null,
+    token_credit_purchases: creditPurchases,
+    usage_events: events,
+    quota_notifications: notifications,
+    app_sessions: sessions,
+    referral_profile: referralProfile ?? null,
+    referrals_made: referralsMade,
+    referred_by: referredBy,
+    emails,
+  };
+}
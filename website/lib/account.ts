@@ -0,0 +1,237 @@
+import { db } from "@/lib/db";
+import { authUsers, referrals, users } from "@/lib/db/schema";
+import { eq, and, isNull, isNotNull, sql } from "drizzle-orm";
+import {
+  getActiveSubscription,
+  type ActiveSubscription,
+} from "@/lib/db/subscription-repo";
+import { getUsage } from "@/lib/db/token-usage";
+import { getCreditBalance } from "@/lib/db/token-credits";
+import type { SubscriptionTier } from "@/lib/tiers";
+import { getSubscriptionTokenLimit } from "@/lib/dunning";
+import { generateReferralCode, REFERRAL_REWARD_DAYS } from "@/lib/referral";
+import { deleteVerificationTokensFor } from "@/lib/db/verification-tokens";
+import type { Role } from "@/lib/roles";
+
+export type ReferralProfile = typeof users.$inferSelect;
+
+export interface Account {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  subscription: ActiveSubscription | null;
+  referral: ReferralProfile | null;
+}
+
+export interface AccountUsage {
+  tier: SubscriptionTier;
+  tokenLimit: number;
+  tokensUsed: number;
+  // Tokens drawn from credits, which don't count against the tier quota
+  creditTokensUsed: number;
+  tokensRemaining: number;
+  creditBalance: number;
+  requestCount: number;
+  period: string;
+  periodEnd: string;
+  // Set while a past_due subscription is in its grace period
+  graceUntil: string | null;
+}
+
+/** Loads a user's subscription and referral state in one go. */
+export async function getAccount(userId: string): Promise<Account | null> {
+  const [user, subscription, referral] = await Promise.all([
+    db.query.authUsers.findFirst({
+      where: eq(authUsers.id, userId),
+      columns: { id: true, email: true, name: true, role: true },
+    }),
+    getActiveSubscription(userId),
+    getReferralProfile(userId),
+  ]);
+  if (!user) return null;
+
+  return { ...user, subscription, referral };
+}
+
+export async function findAccountByEmail(email: string): Promise<Account | null> {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.email, email),
+    columns: { id: true },
+  });
+  return user ? getAccount(user.id) : null;
+}
+
+/** Token usage for the current period, or null without an active subscription. */
+export async function getAccountUsage(
+  userId: string,
+  subscription: ActiveSubscription | null
+): Promise<AccountUsage | null> {
+  if (!subscription) return null;
+
+  const [usage, creditBalance] = await Promise.all([
+    getUsage(userId),
+    getCreditBalance(userId),
+  ]);
+  const tokenLimit = getSubscriptionTokenLimit(subscription);
+  const tierTokensUsed = usage.totalTokens - usage.creditTokens;
+
+  return {
+    tier: subscription.tier,
+    tokenLimit,
+    tokensUsed: usage.totalTokens,
+    creditTokensUsed: usage.creditTokens,
+    tokensRemaining: Math.max(0, tokenLimit - tierTokensUsed),
+    creditBalance,
+    requestCount: usage.requestCount,
+    period: usage.period,
+    periodEnd: usage.periodEnd,
+    graceUntil: subscription.graceUntil,
+  };
+}
+
+export async function getReferralProfile(
+  userId: string
+): Promise<ReferralProfile | null> {
+  const profile = await db.query.users.findFirst({
+    where: eq(users.userId, userId),
+  });
+  return profile ?? null;
+}
+
+export async function findReferralProfileByCode(
+  code: string
+): Promise<ReferralProfile | null> {
+  const profile = await db.query.users.findFirst({
+    where: eq(users.referralCode, code),
+  });
+  return profile ?? null;
+}
+
+/**
+ * Returns the user's referral profile, creating it with a fresh referral code
+ * on first use. A profile left unlinked under the same address is adopted.
+ */
+export async function ensureReferralProfile(user: {
+  id: string;
+  email: string;
+}): Promise<ReferralProfile> {
+  const existing = await getReferralProfile(user.id);
+  if (existing) return existing;
+
+  const [adopted] = await db
+    .update(users)
+    .set({ userId: user.id })
+    .where(and(eq(users.email, user.email), isNull(users.userId)))
+    .returning();
+  if (adopted) return adopted;
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const [created] = await db
+      .insert(users)
+      .values({
+        email: user.email,
+        userId: user.id,
+        referralCode: generateReferralCode(),
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    // Lost a race to another request creating the same profile
+    const raced = await getReferralProfile(user.id);
+    if (raced) return raced;
+  }
+
+  throw new Error("Could not generate a unique referral code");
+}
+
+/**
+ * Starts the referral credit clock on first use. Returns when the credit runs
+ * out, or null if the profile has none left.
+ */
+export async function activateReferralCredits(
+  profile: ReferralProfile
+): Promise<Date | null> {
+  if (profile.referralCreditsDays <= 0) return null;
+
+  let activatedAt = profile.creditsActivatedAt;
+  if (!activatedAt) {
+    activatedAt = new Date().toISOString();
+    await db
+      .update(users)
+      .set({ creditsActivatedAt: activatedAt })
+      .where(eq(users.email, profile.email));
+  }
+
+  const expiresAt = new Date(
+    new Date(activatedAt).getTime() +
+      profile.referralCreditsDays * 24 * 60 * 60 * 1000
+  );
+  return expiresAt > new Date() ? expiresAt : null;
+}
+
+/** Stops referral credits being consumed while the user pays for a plan. */
+export async function pauseReferralCredits(userId: string): Promise<boolean> {
+  const paused = await db
+    .update(users)
+    .set({ creditsActivatedAt: null })
+    .where(and(eq(users.userId, userId), isNotNull(users.creditsActivatedAt)))
+    .returning({ email: users.email });
+  return paused.length > 0;
+}
+
+/**
+ * Takes back the rewards earned for referring this user, after their payment
+ * was refunded or disputed. Returns the emails of the referrers affected.
+ */
+export async function reverseReferrals(referredUserId: string): Promise<string[]> {
+  // Flipping the status first means a redelivered refund or a later dispute
+  // on the same customer can't take a reward back twice
+  const reversed = await db
+    .update(referrals)
+    .set({ status: "reversed" })
+    .where(
+      and(
+        eq(referrals.referredUserId, referredUserId),
+        eq(referrals.status, "completed")
+      )
+    )
+    .returning({ referrerEmail: referrals.referrerEmail });
+
+  for (const { referrerEmail } of reversed) {
+    await db
+      .update(users)
+      .set({
+        referralCreditsDays: sql`max(${users.referralCreditsDays} - ${REFERRAL_REWARD_DAYS}, 0)`,
+        referralsCount: sql`max(${users.referralsCount} - 1, 0)`,
+      })
+      .where(eq(users.email, referrerEmail));
+  }
+
+  return reversed.map((referral) => referral.referrerEmail);
+}
+
+/**
+ * Moves an account to an address the user has just confirmed, carrying it
+ * over to the referral profile and the referrals the user is part of.
+ * Referrals made by the user follow the profile through the referrer_email
+ * foreign key. Tokens issued for the old address are discarded.
+ */
+export async function updateAccountEmail(
+  user: { id: string; email: string },
+  email: string
+) {
+  await db.batch([
+    db
+      .update(authUsers)
+      .set({ email, pendingEmail: null, emailVerified: new Date() })
+      .where(eq(authUsers.id, user.id)),
+    db.update(users).set({ email }).where(eq(users.userId, user.id)),
+    db
+      .update(referrals)
+      .set({ referredEmail: email })
+      .where(eq(referrals.referredUserId, user.id)),
+    deleteVerificationTokensFor(user.email),
+  ]);
+}
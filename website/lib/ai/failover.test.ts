@@ -0,0 +1,275 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { startMockUpstream, type MockUpstream } from '@/test/mock-upstream'
+import type { UpstreamChatRequest } from '@/lib/ai/providers'
+
+type Failover = typeof import('@/lib/ai/failover')
+type Models = typeof import('@/lib/ai/models')
+
+const REQUEST: Omit<UpstreamChatRequest, 'model'> = {
+  messages: [{ role: 'user', content: 'hi' }],
+  tools: null,
+  temperature: 0,
+  maxTokens: 16,
+  stream: false,
+}
+
+let upstream: MockUpstream
+let failover: Failover
+let models: Models
+
+// The breakers and the fallback list live at module level, so every test
+// gets fresh copies of both modules.
+async function loadModules(env: Record<string, string | undefined> = {}) {
+  for (const [key, value] of Object.entries({ ...upstream.env, ...env })) {
+    vi.stubEnv(key, value)
+  }
+  vi.resetModules()
+  models = await import('@/lib/ai/models')
+  failover = await import('@/lib/ai/failover')
+}
+
+function chain(key: keyof Models['MANAGED_MODELS'], tier: 'pro' | 'max' | null = 'pro') {
+  const selection = models.selectModel(key, tier)
+  if (!selection.ok) throw new Error(selection.error)
+  return models.buildModelChain(selection.value, tier)
+}
+
+beforeAll(async () => {
+  upstream = await startMockUpstream()
+})
+
+afterAll(async () => {
+  await upstream.close()
+})
+
+beforeEach(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  await loadModules({ AI_FALLBACK_MODELS: undefined })
+})
+
+afterEach(() => {
+  upstream.reset()
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('buildModelChain', () => {
+  it('follows the primary with one fallback per other provider', () => {
+    expect(chain('gpt-4o-mini').map((model) => model.key)).toEqual([
+      'gpt-4o-mini',
+      'gemini-2.0-flash',
+      'kimi-k2.5',
+    ])
+  })
+
+  it('skips providers without an API key', async () => {
+    await loadModules({ GEMINI_API_KEY: '' })
+    expect(chain('gpt-4o-mini').map((model) => model.key)).toEqual(['gpt-4o-mini', 'kimi-k2.5'])
+  })
+
+  it('only falls back to models the tier includes', async () => {
+    await loadModules({ AI_FALLBACK_MODELS: 'gpt-4o, gemini-2.0-flash' })
+    expect(chain('kimi-k2.5', 'pro').map((model) => model.key)).toEqual([
+      'kimi-k2.5',
+      'gemini-2.0-flash',
+    ])
+    expect(chain('kimi-k2.5', 'max').map((model) => model.key)).toEqual([
+      'kimi-k2.5',
+      'gpt-4o',
+      'gemini-2.0-flash',
+    ])
+  })
+})
+
+describe('selectModel', () => {
+  it('stands in a fallback when the default model is not configured', async () => {
+    await loadModules({ OPENAI_API_KEY: '' })
+
+    const selection = models.selectModel(undefined, 'pro')
+
+    expect(selection.ok && selection.value.key).toBe('gemini-2.0-flash')
+    expect(selection.ok && models.buildModelChain(selection.value, 'pro').map((model) => model.key)).toEqual([
+      'gemini-2.0-flash',
+      'kimi-k2.5',
+    ])
+  })
+
+  it('does not swap a model the client asked for', async () => {
+    await loadModules({ OPENAI_API_KEY: '' })
+
+    expect(models.selectModel('gpt-4o-mini', 'pro')).toMatchObject({ ok: false, code: 'MODEL_UNAVAILABLE' })
+  })
+
+  it('is unavailable when no provider can serve the tier', async () => {
+    await loadModules({ OPENAI_API_KEY: '', GEMINI_API_KEY: '', KIMI_API_KEY: '' })
+
+    expect(models.selectModel(undefined, 'pro')).toMatchObject({ ok: false, code: 'MODEL_UNAVAILABLE' })
+  })
+})
+
+describe('requestWithFailover', () => {
+  it('retries 429 and 5xx on the same model', async () => {
+    upstream.queue(
+      'openai',
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { status: 503, headers: { 'Retry-After': '0' } }
+    )
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gpt-4o-mini')
+    expect(upstream.hits('openai')).toBe(3)
+    expect(upstream.hits('gemini')).toBe(0)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    upstream.queue('openai', { status: 503, headers: { 'Retry-After': '0.3' } })
+
+    const started = Date.now()
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gpt-4o-mini')
+    expect(Date.now() - started).toBeGreaterThanOrEqual(290)
+  })
+
+  it('backs off exponentially without Retry-After', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    upstream.queue('openai', { status: 500 }, { status: 500 })
+
+    const started = Date.now()
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok).toBe(true)
+    // Half of 250ms, then half of 500ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(370)
+  })
+
+  it('fails over when Retry-After is longer than it will wait', async () => {
+    upstream.queue('openai', { status: 429, headers: { 'Retry-After': '60' } })
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(1)
+  })
+
+  it('fails over once the retries are used up', async () => {
+    const failure = { status: 502, headers: { 'Retry-After': '0' } }
+    upstream.queue('openai', failure, failure, failure)
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(3)
+  })
+
+  it.each([401, 403, 404])('fails over on %i without retrying', async (status) => {
+    upstream.queue('openai', { status })
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(1)
+  })
+
+  it('returns other client errors without failing over', async () => {
+    upstream.queue('openai', { status: 400 })
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result).toEqual({ ok: false, status: 400 })
+    expect(upstream.hits('gemini')).toBe(0)
+  })
+
+  it('fails over when the provider cannot be reached', async () => {
+    await loadModules({ OPENAI_API_URL: 'http://127.0.0.1:1/openai' })
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gemini-2.0-flash')
+  })
+
+  it('reports the last status when every model fails', async () => {
+    const failure = { status: 500, headers: { 'Retry-After': '0' } }
+    for (const provider of ['openai', 'gemini', 'kimi']) {
+      upstream.queue(provider, failure, failure, failure)
+    }
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result).toEqual({ ok: false, status: 500 })
+    expect(upstream.hits('kimi')).toBe(3)
+  })
+})
+
+describe('circuit breaker', () => {
+  const failure = { status: 500, headers: { 'Retry-After': '0' } }
+
+  // Two requests' worth of retries take openai past the failure threshold
+  async function openOpenAICircuit() {
+    upstream.queue('openai', failure, failure, failure, failure, failure, failure)
+    await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    upstream.reset()
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+  })
+
+  it('skips a provider while its circuit is open', async () => {
+    await openOpenAICircuit()
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:29Z'))
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(0)
+  })
+
+  it('stays closed below the failure threshold', async () => {
+    upstream.queue('openai', failure, failure, failure)
+    await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    upstream.reset()
+
+    const result = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+
+    expect(result.ok && result.model.key).toBe('gpt-4o-mini')
+  })
+
+  it('lets one probe through when half-open and closes on success', async () => {
+    await openOpenAICircuit()
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+    upstream.queue('openai', { status: 200, delayMs: 100 })
+
+    const [probe, other] = await Promise.all([
+      failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST),
+      failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST),
+    ])
+
+    expect(probe.ok && probe.model.key).toBe('gpt-4o-mini')
+    expect(other.ok && other.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(1)
+
+    const next = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    expect(next.ok && next.model.key).toBe('gpt-4o-mini')
+  })
+
+  it('reopens when the half-open probe fails', async () => {
+    await openOpenAICircuit()
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+    upstream.queue('openai', failure, failure, failure)
+
+    const probe = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    expect(probe.ok && probe.model.key).toBe('gemini-2.0-flash')
+    upstream.reset()
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:10Z'))
+    const next = await failover.requestWithFailover(chain('gpt-4o-mini'), REQUEST)
+    expect(next.ok && next.model.key).toBe('gemini-2.0-flash')
+    expect(upstream.hits('openai')).toBe(0)
+  })
+})
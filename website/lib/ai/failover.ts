@@ -0,0 +1,161 @@
+import type { ModelSelection } from '@/lib/ai/models'
+import type { AIProvider, ProviderId, UpstreamChatRequest } from '@/lib/ai/providers'
+import { getProvider } from '@/lib/ai/providers'
+
+const FAILURE_THRESHOLD = 5
+const OPEN_DURATION_MS = 30_000
+const MAX_ATTEMPTS_PER_MODEL = 3
+const BASE_BACKOFF_MS = 250
+const MAX_BACKOFF_MS = 4_000
+
+// ── Circuit breaker ───────────────────────────────────────────────────
+// Per-process, like the rate limiter: each instance learns about an upstream
+// incident on its own, which is enough to stop hammering a failing provider.
+
+const breakers = new Map<ProviderId, { failures: number; openedAt: number | null }>()
+
+function acquireCircuit(id: ProviderId, now = Date.now()): boolean {
+  const breaker = breakers.get(id)
+  if (!breaker?.openedAt) return true
+  if (now - breaker.openedAt < OPEN_DURATION_MS) return false
+
+  // Half-open: let this request probe the provider and keep everyone else on
+  // the fallback until it reports back.
+  breaker.openedAt = now
+  return true
+}
+
+function recordSuccess(id: ProviderId) {
+  breakers.delete(id)
+}
+
+function recordFailure(id: ProviderId, now = Date.now()) {
+  const breaker = breakers.get(id) ?? { failures: 0, openedAt: null }
+  breaker.failures += 1
+  if (breaker.failures >= FAILURE_THRESHOLD) {
+    if (!breaker.openedAt) {
+      console.warn(`Circuit opened for AI provider ${id} after ${breaker.failures} failures`)
+    }
+    breaker.openedAt = now
+  }
+  breakers.set(id, breaker)
+}
+
+// ── Retry & failover ──────────────────────────────────────────────────
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+// Auth and routing errors mean the provider is misconfigured, not that the
+// request is bad, so they move on to the next model without retrying.
+function isProviderFault(status: number): boolean {
+  return status === 401 || status === 403 || status === 404
+}
+
+function getBackoffMs(attempt: number, retryAfter: string | null): number | null {
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (Number.isFinite(seconds)) {
+      const ms = seconds * 1000
+      // The provider asked for a longer pause than we are willing to hold the
+      // client for; fail over instead.
+      return ms > MAX_BACKOFF_MS ? null : ms
+    }
+  }
+
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true }
+    )
+  })
+}
+
+export type FailoverResult =
+  | { ok: true; response: Response; provider: AIProvider; model: ModelSelection }
+  | { ok: false; status: number | null }
+
+/**
+ * Sends the request to the first healthy model in `chain`, retrying 429/5xx
+ * and network errors with exponential backoff before falling over to the next
+ * model. Client errors (other 4xx) are returned immediately since another
+ * provider would reject the same request.
+ */
+export async function requestWithFailover(
+  chain: ModelSelection[],
+  request: Omit<UpstreamChatRequest, 'model'>,
+  signal?: AbortSignal
+): Promise<FailoverResult> {
+  let lastStatus: number | null = null
+
+  for (const model of chain) {
+    const provider = getProvider(model.provider)
+
+    if (!acquireCircuit(provider.id)) {
+      continue
+    }
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_MODEL; attempt++) {
+      if (signal?.aborted) {
+        return { ok: false, status: lastStatus }
+      }
+
+      let response: Response
+      try {
+        response = await provider.request({ ...request, model: model.upstreamModel }, signal)
+      } catch (error) {
+        if (signal?.aborted) {
+          return { ok: false, status: lastStatus }
+        }
+        console.error(`Upstream ${provider.id} request failed:`, error)
+        recordFailure(provider.id)
+        lastStatus = null
+        if (attempt < MAX_ATTEMPTS_PER_MODEL - 1) {
+          await sleep(getBackoffMs(attempt, null) ?? 0, signal)
+        }
+        continue
+      }
+
+      if (response.ok) {
+        recordSuccess(provider.id)
+        return { ok: true, response, provider, model }
+      }
+
+      lastStatus = response.status
+      const errorText = await response.text().catch(() => '')
+      console.error(`Upstream ${provider.id} API error:`, response.status, errorText)
+
+      if (isProviderFault(response.status)) {
+        recordFailure(provider.id)
+        break
+      }
+
+      if (!isRetryableStatus(response.status)) {
+        return { ok: false, status: response.status }
+      }
+
+      recordFailure(provider.id)
+
+      const backoff = getBackoffMs(attempt, response.headers.get('retry-after'))
+      if (backoff === null || attempt === MAX_ATTEMPTS_PER_MODEL - 1) {
+        break
+      }
+      await sleep(backoff, signal)
+    }
+
+    console.warn(`Failing over from ${model.key}`)
+  }
+
+  return { ok: false, status: lastStatus }
+}
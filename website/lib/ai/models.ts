@@ -0,0 +1,127 @@
+import type { ProviderId } from '@/lib/ai/providers'
+import type { SubscriptionTier } from '@/lib/tiers'
+import { getProvider } from '@/lib/ai/providers'
+
+// Models a client may request by key. The upstream id is what the provider
+// sees; the key is what the app sends and what usage is recorded against.
+export const MANAGED_MODELS = {
+  'gpt-4o-mini': {
+    provider: 'openai' as ProviderId,
+    upstreamModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    tiers: ['pro', 'max'] as SubscriptionTier[],
+  },
+  'gpt-4o': {
+    provider: 'openai' as ProviderId,
+    upstreamModel: 'gpt-4o',
+    tiers: ['max'] as SubscriptionTier[],
+  },
+  'claude-sonnet-4': {
+    provider: 'anthropic' as ProviderId,
+    upstreamModel: 'claude-sonnet-4-20250514',
+    tiers: ['max'] as SubscriptionTier[],
+  },
+  'gemini-2.0-flash': {
+    provider: 'gemini' as ProviderId,
+    upstreamModel: 'gemini-2.0-flash',
+    tiers: ['pro', 'max'] as SubscriptionTier[],
+  },
+  'kimi-k2.5': {
+    provider: 'kimi' as ProviderId,
+    upstreamModel: 'moonshotai/kimi-k2.5',
+    tiers: ['pro', 'max'] as SubscriptionTier[],
+  },
+}
+
+export type ManagedModelKey = keyof typeof MANAGED_MODELS
+
+export function isManagedModelKey(model: unknown): model is ManagedModelKey {
+  return typeof model === 'string' && Object.prototype.hasOwnProperty.call(MANAGED_MODELS, model)
+}
+
+function envDefaultModel(value: string | undefined, fallback: ManagedModelKey): ManagedModelKey {
+  return isManagedModelKey(value) ? value : fallback
+}
+
+export const TIER_DEFAULT_MODELS: Record<SubscriptionTier, ManagedModelKey> = {
+  pro: envDefaultModel(process.env.AI_PRO_DEFAULT_MODEL, 'gpt-4o-mini'),
+  max: envDefaultModel(process.env.AI_MAX_DEFAULT_MODEL, 'gpt-4o-mini'),
+}
+
+// Tried in order when the requested model's provider is failing. Override with
+// a comma-separated AI_FALLBACK_MODELS list.
+export const FALLBACK_MODELS: ManagedModelKey[] = (
+  process.env.AI_FALLBACK_MODELS?.split(',').map((key) => key.trim()) ?? [
+    'gpt-4o-mini',
+    'gemini-2.0-flash',
+    'kimi-k2.5',
+  ]
+).filter(isManagedModelKey)
+
+export interface ModelSelection {
+  key: ManagedModelKey
+  provider: ProviderId
+  upstreamModel: string
+}
+
+export type ModelSelectionResult =
+  | { ok: true; value: ModelSelection }
+  | { ok: false; error: string; code: 'INVALID_MODEL' | 'MODEL_NOT_ALLOWED' | 'MODEL_UNAVAILABLE' }
+
+/**
+ * Picks the model for a request: the client's `model` if it is allow-listed
+ * for the tier, otherwise the tier default, or a fallback when the default's
+ * provider isn't configured. Admins (tier `null`) may use any managed model
+ * and default to the Max model.
+ */
+export function selectModel(requested: unknown, tier: SubscriptionTier | null): ModelSelectionResult {
+  let key: ManagedModelKey
+
+  if (requested === undefined || requested === null) {
+    key = TIER_DEFAULT_MODELS[tier ?? 'max']
+  } else if (!isManagedModelKey(requested)) {
+    return { ok: false, error: `Unknown model: ${String(requested)}`, code: 'INVALID_MODEL' }
+  } else {
+    key = requested
+  }
+
+  const model = MANAGED_MODELS[key]
+  if (tier && !model.tiers.includes(tier)) {
+    return { ok: false, error: `Model ${key} is not included in your plan`, code: 'MODEL_NOT_ALLOWED' }
+  }
+
+  const selection: ModelSelection = { key, provider: model.provider, upstreamModel: model.upstreamModel }
+
+  if (!getProvider(model.provider).isConfigured()) {
+    // Only a model the client asked for by name has to be that model; the
+    // tier default can be stood in for by the first fallback that is set up
+    const fallback = requested === undefined || requested === null
+      ? buildModelChain(selection, tier)[1]
+      : undefined
+    if (fallback) return { ok: true, value: fallback }
+
+    return { ok: false, error: `Model ${key} is currently unavailable`, code: 'MODEL_UNAVAILABLE' }
+  }
+
+  return { ok: true, value: selection }
+}
+
+/**
+ * The selected model followed by every fallback the tier may use and whose
+ * provider is configured, skipping fallbacks served by the same provider.
+ */
+export function buildModelChain(
+  primary: ModelSelection,
+  tier: SubscriptionTier | null
+): ModelSelection[] {
+  const chain: ModelSelection[] = [primary]
+
+  for (const key of FALLBACK_MODELS) {
+    const model = MANAGED_MODELS[key]
+    if (chain.some((entry) => entry.provider === model.provider)) continue
+    if (tier && !model.tiers.includes(tier)) continue
+    if (!getProvider(model.provider).isConfigured()) continue
+    chain.push({ key, provider: model.provider, upstreamModel: model.upstreamModel })
+  }
+
+  return chain
+}
@@ -0,0 +1,252 @@
+import type { ProxyChatMessage, ProxyToolCall, ProxyToolChoice } from '@/lib/ai/tools'
+import type {
+  AIProvider,
+  ChatCompletion,
+  FinishReason,
+  StreamTranslator,
+  TokenUsage,
+} from '@/lib/ai/providers/types'
+import {
+  createChunk,
+  createUsageChunk,
+  parseToolArguments,
+  toOpenAIUsage,
+} from '@/lib/ai/providers/types'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: AnthropicBlock[]
+}
+
+const STOP_REASONS: Record<string, FinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+}
+
+// Anthropic requires strictly alternating roles and carries tool results inside
+// user turns, so consecutive messages that map to the same role are merged.
+function toAnthropicMessages(messages: ProxyChatMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = []
+
+  for (const msg of messages) {
+    let role: AnthropicMessage['role']
+    const blocks: AnthropicBlock[] = []
+
+    if (msg.role === 'tool') {
+      role = 'user'
+      blocks.push({ type: 'tool_result', tool_use_id: msg.tool_call_id, content: msg.content })
+    } else if (msg.role === 'assistant') {
+      role = 'assistant'
+      if (msg.content) blocks.push({ type: 'text', text: msg.content })
+      for (const call of msg.tool_calls ?? []) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseToolArguments(call.function.arguments),
+        })
+      }
+    } else {
+      role = 'user'
+      blocks.push({ type: 'text', text: msg.content })
+    }
+
+    const previous = result[result.length - 1]
+    if (previous?.role === role) {
+      previous.content.push(...blocks)
+    } else {
+      result.push({ role, content: blocks })
+    }
+  }
+
+  return result
+}
+
+function toAnthropicToolChoice(choice: ProxyToolChoice) {
+  if (choice === 'auto') return { type: 'auto' }
+  if (choice === 'none') return { type: 'none' }
+  if (choice === 'required') return { type: 'any' }
+  return { type: 'tool', name: choice.function.name }
+}
+
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY)
+  },
+
+  request(req, signal) {
+    return fetch(process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY ?? '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: req.model,
+        messages: toAnthropicMessages(req.messages),
+        ...(req.tools
+          ? {
+              tools: req.tools.map((tool) => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                input_schema: tool.function.parameters,
+              })),
+            }
+          : {}),
+        ...(req.toolChoice ? { tool_choice: toAnthropicToolChoice(req.toolChoice) } : {}),
+        temperature: req.temperature,
+        max_tokens: req.maxTokens,
+        stream: req.stream,
+      }),
+      signal,
+    })
+  },
+
+  toCompletion(data, model) {
+    const message = data as {
+      id: string
+      content: AnthropicBlock[]
+      stop_reason: string | null
+      usage?: { input_tokens?: number; output_tokens?: number }
+    }
+
+    const text = message.content
+      .filter((block): block is Extract<AnthropicBlock, { type: 'text' }> => block.type === 'text')
+      .map((block) => block.text)
+      .join('')
+    const toolCalls: ProxyToolCall[] = message.content
+      .filter((block): block is Extract<AnthropicBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name as ProxyToolCall['function']['name'],
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }))
+
+    const completion: ChatCompletion = {
+      id: message.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: text || null,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: message.stop_reason ? STOP_REASONS[message.stop_reason] ?? 'stop' : null,
+        },
+      ],
+    }
+
+    if (message.usage) {
+      completion.usage = toOpenAIUsage({
+        promptTokens: message.usage.input_tokens ?? 0,
+        completionTokens: message.usage.output_tokens ?? 0,
+      })
+    }
+
+    return completion
+  },
+
+  createStreamTranslator(model): StreamTranslator {
+    let id = ''
+    let usage: TokenUsage | null = null
+    // Anthropic numbers every content block; OpenAI numbers only tool calls.
+    const toolIndexByBlock = new Map<number, number>()
+
+    return {
+      translate(data) {
+        const event = data as {
+          type: string
+          index?: number
+          message?: { id: string; usage?: { input_tokens?: number; output_tokens?: number } }
+          content_block?: { type: string; id?: string; name?: string }
+          delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string }
+          usage?: { output_tokens?: number }
+        }
+
+        switch (event.type) {
+          case 'message_start': {
+            id = event.message?.id ?? ''
+            usage = {
+              promptTokens: event.message?.usage?.input_tokens ?? 0,
+              completionTokens: event.message?.usage?.output_tokens ?? 0,
+            }
+            return [createChunk(id, model, { role: 'assistant', content: '' })]
+          }
+
+          case 'content_block_start': {
+            if (event.content_block?.type !== 'tool_use' || event.index === undefined) return []
+            const toolIndex = toolIndexByBlock.size
+            toolIndexByBlock.set(event.index, toolIndex)
+            return [
+              createChunk(id, model, {
+                tool_calls: [
+                  {
+                    index: toolIndex,
+                    id: event.content_block.id,
+                    type: 'function',
+                    function: { name: event.content_block.name, arguments: '' },
+                  },
+                ],
+              }),
+            ]
+          }
+
+          case 'content_block_delta': {
+            if (event.delta?.type === 'text_delta') {
+              return [createChunk(id, model, { content: event.delta.text ?? '' })]
+            }
+            if (event.delta?.type === 'input_json_delta' && event.index !== undefined) {
+              const toolIndex = toolIndexByBlock.get(event.index)
+              if (toolIndex === undefined) return []
+              return [
+                createChunk(id, model, {
+                  tool_calls: [{ index: toolIndex, function: { arguments: event.delta.partial_json ?? '' } }],
+                }),
+              ]
+            }
+            return []
+          }
+
+          case 'message_delta': {
+            if (usage && event.usage?.output_tokens !== undefined) {
+              usage.completionTokens = event.usage.output_tokens
+            }
+            const reason = event.delta?.stop_reason
+            return reason ? [createChunk(id, model, {}, STOP_REASONS[reason] ?? 'stop')] : []
+          }
+
+          default:
+            return []
+        }
+      },
+
+      finish() {
+        return usage ? [createUsageChunk(id, model, usage)] : []
+      },
+
+      usage() {
+        return usage
+      },
+    }
+  },
+}
@@ -0,0 +1,257 @@
+import type { ProxyChatMessage, ProxyToolCall, ProxyToolChoice, ToolSchema } from '@/lib/ai/tools'
+import type {
+  AIProvider,
+  ChatCompletion,
+  ChatCompletionChunk,
+  FinishReason,
+  StreamTranslator,
+  TokenUsage,
+} from '@/lib/ai/providers/types'
+import {
+  createChunk,
+  createUsageChunk,
+  parseToolArguments,
+  toOpenAIUsage,
+} from '@/lib/ai/providers/types'
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: { content: string } } }
+
+interface GeminiContent {
+  role: 'user' | 'model'
+  parts: GeminiPart[]
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: GeminiPart[] }
+    finishReason?: string
+  }[]
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+  responseId?: string
+}
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+}
+
+function getBaseUrl(): string {
+  return process.env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta/models'
+}
+
+// Gemini answers function calls by name rather than by id, so tool results are
+// matched back to the call that produced them.
+function toGeminiContents(messages: ProxyChatMessage[]): GeminiContent[] {
+  const toolNames = new Map<string, string>()
+  const result: GeminiContent[] = []
+
+  for (const msg of messages) {
+    let role: GeminiContent['role']
+    const parts: GeminiPart[] = []
+
+    if (msg.role === 'tool') {
+      role = 'user'
+      parts.push({
+        functionResponse: {
+          name: toolNames.get(msg.tool_call_id) ?? '',
+          response: { content: msg.content },
+        },
+      })
+    } else if (msg.role === 'assistant') {
+      role = 'model'
+      if (msg.content) parts.push({ text: msg.content })
+      for (const call of msg.tool_calls ?? []) {
+        toolNames.set(call.id, call.function.name)
+        parts.push({
+          functionCall: { name: call.function.name, args: parseToolArguments(call.function.arguments) },
+        })
+      }
+    } else {
+      role = 'user'
+      parts.push({ text: msg.content })
+    }
+
+    const previous = result[result.length - 1]
+    if (previous?.role === role) {
+      previous.parts.push(...parts)
+    } else {
+      result.push({ role, parts })
+    }
+  }
+
+  return result
+}
+
+function toFunctionDeclarations(tools: ToolSchema[]) {
+  return tools.map((tool) => {
+    // Gemini's schema dialect rejects additionalProperties.
+    const { additionalProperties: _unused, ...parameters } = tool.function.parameters
+    return {
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters,
+    }
+  })
+}
+
+function toToolConfig(choice: ProxyToolChoice) {
+  if (choice === 'auto') return { functionCallingConfig: { mode: 'AUTO' } }
+  if (choice === 'none') return { functionCallingConfig: { mode: 'NONE' } }
+  if (choice === 'required') return { functionCallingConfig: { mode: 'ANY' } }
+  return {
+    functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.function.name] },
+  }
+}
+
+function toTokenUsageFromMetadata(metadata: GeminiResponse['usageMetadata']): TokenUsage | null {
+  if (!metadata) return null
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    completionTokens: metadata.candidatesTokenCount ?? 0,
+  }
+}
+
+function toToolCall(part: Extract<GeminiPart, { functionCall: unknown }>): ProxyToolCall {
+  return {
+    id: `call_${crypto.randomUUID()}`,
+    type: 'function',
+    function: {
+      name: part.functionCall.name as ProxyToolCall['function']['name'],
+      arguments: JSON.stringify(part.functionCall.args ?? {}),
+    },
+  }
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+
+  isConfigured() {
+    return Boolean(process.env.GEMINI_API_KEY)
+  },
+
+  request(req, signal) {
+    const action = req.stream ? 'streamGenerateContent?alt=sse' : 'generateContent'
+
+    return fetch(`${getBaseUrl()}/${req.model}:${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': process.env.GEMINI_API_KEY ?? '',
+      },
+      body: JSON.stringify({
+        contents: toGeminiContents(req.messages),
+        ...(req.tools ? { tools: [{ functionDeclarations: toFunctionDeclarations(req.tools) }] } : {}),
+        ...(req.toolChoice ? { toolConfig: toToolConfig(req.toolChoice) } : {}),
+        generationConfig: {
+          temperature: req.temperature,
+          maxOutputTokens: req.maxTokens,
+        },
+      }),
+      signal,
+    })
+  },
+
+  toCompletion(data, model) {
+    const response = data as GeminiResponse
+    const candidate = response.candidates?.[0]
+    const parts = candidate?.content?.parts ?? []
+
+    const text = parts
+      .map((part) => ('text' in part ? part.text : ''))
+      .join('')
+    const toolCalls = parts
+      .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => 'functionCall' in part)
+      .map(toToolCall)
+
+    const finishReason: FinishReason | null =
+      toolCalls.length > 0
+        ? 'tool_calls'
+        : candidate?.finishReason
+          ? FINISH_REASONS[candidate.finishReason] ?? 'stop'
+          : null
+
+    const completion: ChatCompletion = {
+      id: response.responseId ?? `chatcmpl-${crypto.randomUUID()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: text || null,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: finishReason,
+        },
+      ],
+    }
+
+    const usage = toTokenUsageFromMetadata(response.usageMetadata)
+    if (usage) {
+      completion.usage = toOpenAIUsage(usage)
+    }
+
+    return completion
+  },
+
+  createStreamTranslator(model): StreamTranslator {
+    const id = `chatcmpl-${crypto.randomUUID()}`
+    let usage: TokenUsage | null = null
+    let toolCallCount = 0
+    let started = false
+
+    return {
+      translate(data) {
+        const response = data as GeminiResponse
+        const chunks: ChatCompletionChunk[] = []
+
+        if (!started) {
+          started = true
+          chunks.push(createChunk(id, model, { role: 'assistant', content: '' }))
+        }
+
+        // usageMetadata is cumulative, so the latest value wins.
+        usage = toTokenUsageFromMetadata(response.usageMetadata) ?? usage
+
+        const candidate = response.candidates?.[0]
+        for (const part of candidate?.content?.parts ?? []) {
+          if ('text' in part && part.text) {
+            chunks.push(createChunk(id, model, { content: part.text }))
+          } else if ('functionCall' in part) {
+            const call = toToolCall(part)
+            chunks.push(
+              createChunk(id, model, {
+                tool_calls: [{ index: toolCallCount++, ...call }],
+              })
+            )
+          }
+        }
+
+        if (candidate?.finishReason) {
+          const reason =
+            toolCallCount > 0 ? 'tool_calls' : FINISH_REASONS[candidate.finishReason] ?? 'stop'
+          chunks.push(createChunk(id, model, {}, reason))
+        }
+
+        return chunks
+      },
+
+      finish() {
+        return usage ? [createUsageChunk(id, model, usage)] : []
+      },
+
+      usage() {
+        return usage
+      },
+    }
+  },
+}
@@ -0,0 +1,26 @@
+import type { AIProvider, ProviderId } from '@/lib/ai/providers/types'
+import { anthropicProvider } from '@/lib/ai/providers/anthropic'
+import { geminiProvider } from '@/lib/ai/providers/gemini'
+import { kimiProvider, openaiProvider } from '@/lib/ai/providers/openai'
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+  kimi: kimiProvider,
+}
+
+export function getProvider(id: ProviderId): AIProvider {
+  return PROVIDERS[id]
+}
+
+export type {
+  AIProvider,
+  ChatCompletion,
+  ChatCompletionChunk,
+  ProviderId,
+  StreamTranslator,
+  TokenUsage,
+  UpstreamChatRequest,
+} from '@/lib/ai/providers/types'
+export { toTokenUsage } from '@/lib/ai/providers/types'
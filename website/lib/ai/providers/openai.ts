@@ -0,0 +1,85 @@
+import type {
+  AIProvider,
+  ChatCompletion,
+  ChatCompletionChunk,
+  ProviderId,
+  StreamTranslator,
+  TokenUsage,
+} from '@/lib/ai/providers/types'
+import { toTokenUsage } from '@/lib/ai/providers/types'
+
+interface OpenAICompatibleConfig {
+  id: ProviderId
+  url: () => string
+  apiKey: () => string | undefined
+}
+
+// OpenAI and Moonshot/Kimi (served through NVIDIA's OpenAI-compatible endpoint)
+// speak the same wire format, so responses are passed through unchanged apart
+// from capturing usage.
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  return {
+    id: config.id,
+
+    isConfigured() {
+      return Boolean(config.apiKey())
+    },
+
+    request(req, signal) {
+      return fetch(config.url(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey()}`,
+        },
+        body: JSON.stringify({
+          model: req.model,
+          messages: req.messages,
+          ...(req.tools ? { tools: req.tools } : {}),
+          ...(req.toolChoice ? { tool_choice: req.toolChoice } : {}),
+          temperature: req.temperature,
+          max_tokens: req.maxTokens,
+          stream: req.stream,
+          ...(req.stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal,
+      })
+    },
+
+    toCompletion(data) {
+      return data as ChatCompletion
+    },
+
+    createStreamTranslator(): StreamTranslator {
+      let usage: TokenUsage | null = null
+
+      return {
+        translate(data) {
+          const chunk = data as ChatCompletionChunk
+          if (chunk.usage) {
+            usage = toTokenUsage(chunk.usage)
+          }
+          return [chunk]
+        },
+        finish() {
+          return []
+        },
+        usage() {
+          return usage
+        },
+      }
+    },
+  }
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  url: () => process.env.OPENAI_API_URL || 'https://api.openai.com/v1/chat/completions',
+  apiKey: () => process.env.OPENAI_API_KEY,
+})
+
+export const kimiProvider = createOpenAICompatibleProvider({
+  id: 'kimi',
+  url: () => process.env.KIMI_API_URL || 'https://integrate.api.nvidia.com/v1/chat/completions',
+  apiKey: () => process.env.KIMI_API_KEY,
+})
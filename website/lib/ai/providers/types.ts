@@ -0,0 +1,128 @@
+import type { ProxyChatMessage, ProxyToolCall, ProxyToolChoice, ToolSchema } from '@/lib/ai/tools'
+
+export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'kimi'
+
+export interface UpstreamChatRequest {
+  model: string
+  messages: ProxyChatMessage[]
+  tools: ToolSchema[] | null
+  toolChoice?: ProxyToolChoice
+  temperature: number
+  maxTokens: number
+  stream: boolean
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter'
+
+interface OpenAIUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+// The proxy always answers in the OpenAI chat.completion shape, whichever
+// provider served the request, so the app only has one format to parse.
+export interface ChatCompletion {
+  id: string
+  object: 'chat.completion'
+  created: number
+  model: string
+  choices: {
+    index: number
+    message: { role: 'assistant'; content: string | null; tool_calls?: ProxyToolCall[] }
+    finish_reason: FinishReason | null
+  }[]
+  usage?: OpenAIUsage
+}
+
+export interface ToolCallDelta {
+  index: number
+  id?: string
+  type?: 'function'
+  function: { name?: string; arguments?: string }
+}
+
+export interface ChatCompletionChunk {
+  id: string
+  object: 'chat.completion.chunk'
+  created: number
+  model: string
+  choices: {
+    index: number
+    delta: { role?: 'assistant'; content?: string; tool_calls?: ToolCallDelta[] }
+    finish_reason: FinishReason | null
+  }[]
+  usage?: OpenAIUsage | null
+}
+
+export interface StreamTranslator {
+  /** Converts one upstream SSE `data:` payload into zero or more OpenAI chunks. */
+  translate(data: unknown): ChatCompletionChunk[]
+  /** Chunks to emit once the upstream stream has ended. */
+  finish(): ChatCompletionChunk[]
+  usage(): TokenUsage | null
+}
+
+export interface AIProvider {
+  id: ProviderId
+  isConfigured(): boolean
+  request(req: UpstreamChatRequest, signal?: AbortSignal): Promise<Response>
+  toCompletion(data: unknown, model: string): ChatCompletion
+  createStreamTranslator(model: string): StreamTranslator
+}
+
+export function toTokenUsage(usage: Partial<OpenAIUsage> | null | undefined): TokenUsage | null {
+  if (!usage) return null
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  }
+}
+
+export function toOpenAIUsage(usage: TokenUsage): OpenAIUsage {
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.promptTokens + usage.completionTokens,
+  }
+}
+
+export function createChunk(
+  id: string,
+  model: string,
+  delta: ChatCompletionChunk['choices'][number]['delta'],
+  finishReason: FinishReason | null = null
+): ChatCompletionChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  }
+}
+
+export function createUsageChunk(id: string, model: string, usage: TokenUsage): ChatCompletionChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [],
+    usage: toOpenAIUsage(usage),
+  }
+}
+
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
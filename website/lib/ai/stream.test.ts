@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { normalizeEventStream } from '@/lib/ai/stream'
+import { openaiProvider } from '@/lib/ai/providers/openai'
+
+const encoder = new TextEncoder()
+
+function chunk(content: string, usage?: { prompt_tokens: number; completion_tokens: number }) {
+  const data = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-4o-mini',
+    choices: usage ? [] : [{ index: 0, delta: { content }, finish_reason: null }],
+    usage: usage ? { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens } : null,
+  }
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+}
+
+async function drain(stream: ReadableStream<Uint8Array>): Promise<string> {
+  let text = ''
+  const decoder = new TextDecoder()
+  for await (const part of stream as unknown as AsyncIterable<Uint8Array>) {
+    text += decoder.decode(part, { stream: true })
+  }
+  return text
+}
+
+describe('normalizeEventStream', () => {
+  it('reports usage once the upstream body ends', async () => {
+    const upstream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(chunk('Hel'))
+        controller.enqueue(chunk('lo'))
+        controller.enqueue(chunk('', { prompt_tokens: 12, completion_tokens: 2 }))
+        controller.close()
+      },
+    })
+    const onComplete = vi.fn()
+    const onError = vi.fn()
+
+    const text = await drain(
+      normalizeEventStream(upstream, openaiProvider.createStreamTranslator('gpt-4o-mini'), onComplete, onError)
+    )
+
+    expect(text.endsWith('data: [DONE]\n\n')).toBe(true)
+    expect(onComplete).toHaveBeenCalledWith({ promptTokens: 12, completionTokens: 2 })
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('reports the usage seen so far when the upstream body fails', async () => {
+    let sent = false
+    const upstream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent) {
+          controller.error(new Error('socket hang up'))
+          return
+        }
+        sent = true
+        controller.enqueue(chunk('', { prompt_tokens: 12, completion_tokens: 5 }))
+      },
+    })
+    const onComplete = vi.fn()
+    const onError = vi.fn()
+
+    await expect(
+      drain(normalizeEventStream(upstream, openaiProvider.createStreamTranslator('gpt-4o-mini'), onComplete, onError))
+    ).rejects.toThrow('socket hang up')
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), { promptTokens: 12, completionTokens: 5 })
+    expect(onComplete).not.toHaveBeenCalled()
+  })
+})
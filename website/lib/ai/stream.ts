@@ -0,0 +1,83 @@
+import type { StreamTranslator, TokenUsage } from '@/lib/ai/providers'
+
+/**
+ * Re-encodes an upstream SSE body as OpenAI-style `data:` chunks, whatever the
+ * provider's native event format, and reports the final usage once the stream
+ * has been fully consumed — or, if the upstream body fails part way, the usage
+ * seen up to that point.
+ */
+export function normalizeEventStream(
+  upstream: ReadableStream<Uint8Array>,
+  translator: StreamTranslator,
+  onComplete: (usage: TokenUsage | null) => Promise<void> | void,
+  onError: (error: unknown, usage: TokenUsage | null) => Promise<void> | void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  // pipeThrough() gives the transformer no hook for a failing source, so the
+  // upstream body is read here and its errors reported before passing them on.
+  const reader = upstream.getReader()
+  const source = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        await onError(error, translator.usage())
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  function emit(controller: TransformStreamDefaultController<Uint8Array>, line: string) {
+    if (!line.startsWith('data:')) return
+    const payload = line.slice(5).trim()
+    if (!payload || payload === '[DONE]') return
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(payload)
+    } catch {
+      // Not valid JSON, skip
+      return
+    }
+
+    for (const chunk of translator.translate(parsed)) {
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`))
+    }
+  }
+
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        // SSE events can be split across network chunks; only complete lines are parsed.
+        buffer += decoder.decode(chunk, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() ?? ''
+        for (const line of lines) {
+          emit(controller, line.replace(/\r$/, ''))
+        }
+      },
+      async flush(controller) {
+        buffer += decoder.decode()
+        if (buffer) emit(controller, buffer)
+
+        for (const chunk of translator.finish()) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`))
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+
+        await onComplete(translator.usage())
+      },
+    })
+  )
+}
@@ -0,0 +1,34 @@
+import type { ProxyChatMessage, ToolSchema } from '@/lib/ai/tools'
+
+// Same ~4 chars per token heuristic as the app's TokenEstimator. It only has to
+// be close enough to size a quota reservation; actual usage is reconciled from
+// the provider's numbers afterwards.
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+export function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / CHARS_PER_TOKEN))
+}
+
+export function estimatePromptTokens(
+  messages: ProxyChatMessage[],
+  tools: ToolSchema[] | null
+): number {
+  let total = 0
+
+  for (const msg of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS
+    if (msg.content) total += estimateTokens(msg.content)
+    if (msg.role === 'assistant') {
+      for (const call of msg.tool_calls ?? []) {
+        total += estimateTokens(call.function.name + call.function.arguments)
+      }
+    }
+  }
+
+  if (tools) {
+    total += estimateTokens(JSON.stringify(tools))
+  }
+
+  return total
+}
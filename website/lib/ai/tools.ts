@@ -0,0 +1,300 @@
+import type { AI_TOOLS as SHARED_AI_TOOLS } from '../../../shared/types'
+
+// Mirrors AI_TOOLS in shared/types.ts. The shared file sits outside the Next
+// app, so only its type is imported, to check the two lists are identical.
+export const AI_TOOLS = [
+  {
+    name: 'create_calendar_event',
+    description: 'Create a new calendar event',
+    parameters: {
+      title: 'string',
+      date: 'string (YYYY-MM-DD)',
+      time: 'string (HH:MM)',
+      duration: 'number (minutes)',
+      calendar_type: "'google' | 'apple'",
+    },
+  },
+  {
+    name: 'list_calendar_events',
+    description: 'List calendar events for a date range',
+    parameters: {
+      start_date: 'string (YYYY-MM-DD)',
+      end_date: 'string (YYYY-MM-DD)',
+      calendar_type: "'google' | 'apple' | 'both'",
+    },
+  },
+  {
+    name: 'send_email',
+    description: 'Send an email via Gmail',
+    parameters: {
+      to: 'string (email address)',
+      subject: 'string',
+      body: 'string',
+    },
+  },
+  {
+    name: 'draft_email',
+    description: 'Create an email draft for user review',
+    parameters: {
+      to: 'string (email address)',
+      subject: 'string',
+      body: 'string',
+    },
+  },
+  {
+    name: 'search_emails',
+    description: 'Search emails in Gmail',
+    parameters: {
+      query: 'string (Gmail search syntax)',
+    },
+  },
+] as const
+
+type Identical<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false
+
+// Fails to compile when this list and the shared one drift apart
+const toolsMatchShared: Identical<typeof AI_TOOLS, typeof SHARED_AI_TOOLS> = true
+void toolsMatchShared
+
+export type AIToolName = (typeof AI_TOOLS)[number]['name']
+
+export interface ToolSchema {
+  type: 'function'
+  function: {
+    name: AIToolName
+    description: string
+    parameters: {
+      type: 'object'
+      properties: Record<string, Record<string, unknown>>
+      required: string[]
+      additionalProperties: false
+    }
+  }
+}
+
+export interface ProxyToolCall {
+  id: string
+  type: 'function'
+  function: { name: AIToolName; arguments: string }
+}
+
+export type ProxyChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ProxyToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string }
+
+export type ProxyToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: AIToolName } }
+
+const TOOL_NAMES = new Set<string>(AI_TOOLS.map((tool) => tool.name))
+
+export function isAllowedToolName(name: unknown): name is AIToolName {
+  return typeof name === 'string' && TOOL_NAMES.has(name)
+}
+
+// Turns the shorthand used in AI_TOOLS ("string (YYYY-MM-DD)", "'google' | 'apple'")
+// into a JSON Schema property.
+function toJsonSchemaProperty(spec: string): Record<string, unknown> {
+  const trimmed = spec.trim()
+
+  if (trimmed.startsWith("'")) {
+    const values = trimmed.split('|').map((part) => part.trim().replace(/^'|'$/g, ''))
+    return { type: 'string', enum: values }
+  }
+
+  const match = trimmed.match(/^(string|number|boolean)(?:\s*\((.+)\))?$/)
+  if (!match) {
+    return { type: 'string', description: trimmed }
+  }
+
+  return {
+    type: match[1],
+    ...(match[2] ? { description: match[2] } : {}),
+  }
+}
+
+export const MANAGED_TOOL_SCHEMAS: ToolSchema[] = AI_TOOLS.map((tool) => {
+  const properties: Record<string, Record<string, unknown>> = {}
+  for (const [key, spec] of Object.entries(tool.parameters)) {
+    properties[key] = toJsonSchemaProperty(spec)
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        type: 'object',
+        properties,
+        required: Object.keys(tool.parameters),
+        additionalProperties: false,
+      },
+    },
+  }
+})
+
+const MAX_MESSAGES = 50
+const MAX_CONTENT_LENGTH = 10_000
+const MAX_TOOL_RESULT_LENGTH = 20_000
+const MAX_TOOL_CALLS_PER_MESSAGE = 8
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+/**
+ * Resolves the client's `tools` field against the allow-list. Clients may send
+ * tool names or OpenAI-style tool objects; either way only the server-generated
+ * schema is forwarded upstream, so callers cannot inject their own definitions.
+ */
+export function resolveRequestedTools(tools: unknown): ValidationResult<ToolSchema[] | null> {
+  if (tools === undefined || tools === null) {
+    return { ok: true, value: null }
+  }
+
+  if (!Array.isArray(tools)) {
+    return { ok: false, error: 'tools must be an array.' }
+  }
+
+  const names = new Set<AIToolName>()
+  for (const tool of tools) {
+    const name = typeof tool === 'string' ? tool : tool?.function?.name
+    if (!isAllowedToolName(name)) {
+      return { ok: false, error: `Unknown tool: ${String(name)}` }
+    }
+    names.add(name)
+  }
+
+  if (names.size === 0) {
+    return { ok: true, value: null }
+  }
+
+  return {
+    ok: true,
+    value: MANAGED_TOOL_SCHEMAS.filter((schema) => names.has(schema.function.name)),
+  }
+}
+
+export function validateToolChoice(
+  toolChoice: unknown,
+  tools: ToolSchema[] | null
+): ValidationResult<ProxyToolChoice | undefined> {
+  if (toolChoice === undefined || toolChoice === null) {
+    return { ok: true, value: undefined }
+  }
+
+  if (!tools) {
+    return { ok: false, error: 'tool_choice requires tools.' }
+  }
+
+  if (toolChoice === 'auto' || toolChoice === 'none' || toolChoice === 'required') {
+    return { ok: true, value: toolChoice }
+  }
+
+  const name = (toolChoice as { function?: { name?: unknown } })?.function?.name
+  if (!tools.some((tool) => tool.function.name === name)) {
+    return { ok: false, error: 'tool_choice must reference one of the requested tools.' }
+  }
+
+  return { ok: true, value: { type: 'function', function: { name: name as AIToolName } } }
+}
+
+function validateToolCalls(toolCalls: unknown): ValidationResult<ProxyToolCall[]> {
+  if (!Array.isArray(toolCalls) || toolCalls.length > MAX_TOOL_CALLS_PER_MESSAGE) {
+    return {
+      ok: false,
+      error: `tool_calls must be an array of at most ${MAX_TOOL_CALLS_PER_MESSAGE} entries.`,
+    }
+  }
+
+  const validated: ProxyToolCall[] = []
+  for (const call of toolCalls) {
+    if (typeof call?.id !== 'string' || !call.id) {
+      return { ok: false, error: 'Each tool call must have an id.' }
+    }
+    if (!isAllowedToolName(call.function?.name)) {
+      return { ok: false, error: `Unknown tool: ${String(call.function?.name)}` }
+    }
+    if (typeof call.function.arguments !== 'string') {
+      return { ok: false, error: 'Tool call arguments must be a JSON string.' }
+    }
+    validated.push({
+      id: call.id,
+      type: 'function',
+      function: { name: call.function.name, arguments: call.function.arguments },
+    })
+  }
+
+  return { ok: true, value: validated }
+}
+
+/**
+ * Validates the conversation sent by the app. System messages are stripped (the
+ * proxy does not let clients override the managed prompt), and every `tool`
+ * result must answer a tool call issued earlier in the same conversation.
+ */
+export function validateChatMessages(messages: unknown): ValidationResult<ProxyChatMessage[]> {
+  if (!messages || !Array.isArray(messages)) {
+    return { ok: false, error: 'messages are required' }
+  }
+
+  if (messages.length > MAX_MESSAGES) {
+    return { ok: false, error: `Too many messages. Maximum allowed is ${MAX_MESSAGES}.` }
+  }
+
+  const issuedToolCallIds = new Set<string>()
+  const validated: ProxyChatMessage[] = []
+
+  for (const msg of messages) {
+    if (msg?.role === 'tool') {
+      if (typeof msg.tool_call_id !== 'string' || !issuedToolCallIds.has(msg.tool_call_id)) {
+        return { ok: false, error: 'Tool result does not match any previous tool call.' }
+      }
+      if (typeof msg.content !== 'string' || msg.content.length > MAX_TOOL_RESULT_LENGTH) {
+        return {
+          ok: false,
+          error: `Tool result content must be a string of at most ${MAX_TOOL_RESULT_LENGTH} characters.`,
+        }
+      }
+      validated.push({ role: 'tool', content: msg.content, tool_call_id: msg.tool_call_id })
+      continue
+    }
+
+    if (msg?.role === 'assistant' && msg.tool_calls !== undefined && msg.tool_calls !== null) {
+      const toolCalls = validateToolCalls(msg.tool_calls)
+      if (!toolCalls.ok) return toolCalls
+      if (msg.content !== null && msg.content !== undefined && typeof msg.content !== 'string') {
+        return { ok: false, error: 'Each message must have a string content field.' }
+      }
+      for (const call of toolCalls.value) {
+        issuedToolCallIds.add(call.id)
+      }
+      validated.push({
+        role: 'assistant',
+        content: typeof msg.content === 'string' ? msg.content : null,
+        tool_calls: toolCalls.value,
+      })
+      continue
+    }
+
+    if (typeof msg?.content !== 'string') {
+      return { ok: false, error: 'Each message must have a string content field.' }
+    }
+    if (msg.role !== 'user' && msg.role !== 'assistant') {
+      // Strip messages with disallowed roles (e.g. "system")
+      continue
+    }
+    if (msg.content.length > MAX_CONTENT_LENGTH) {
+      return {
+        ok: false,
+        error: `Message content exceeds maximum length of ${MAX_CONTENT_LENGTH} characters.`,
+      }
+    }
+    validated.push({ role: msg.role, content: msg.content })
+  }
+
+  return { ok: true, value: validated }
+}
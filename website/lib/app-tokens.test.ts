@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { decodeJwt } from "jose";
+import { db } from "@/lib/db";
+import { appSessions, authUsers } from "@/lib/db/schema";
+import { createAppSession } from "@/lib/db/app-sessions";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  NON_REFRESHING_ACCESS_TOKEN_TTL_SECONDS,
+  buildSessionTokenResponse,
+  verifyAppToken,
+} from "@/lib/app-tokens";
+
+const USER = {
+  id: "user-tokens",
+  email: "tokens@example.com",
+  name: null,
+  role: "user" as const,
+};
+
+async function signIn(supportsRefresh: boolean) {
+  const created = await createAppSession(
+    USER.id,
+    { deviceName: "Mac", clientVersion: null, ipAddress: "127.0.0.1" },
+    null
+  );
+  return buildSessionTokenResponse(
+    USER,
+    created!.session,
+    created!.refreshToken,
+    supportsRefresh
+  );
+}
+
+beforeEach(async () => {
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+  await db.delete(appSessions);
+  await db.delete(authUsers);
+  await db.insert(authUsers).values({ id: USER.id, email: USER.email });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("buildSessionTokenResponse", () => {
+  it("issues short-lived access tokens to clients that refresh them", async () => {
+    const body = await signIn(true);
+    const claims = decodeJwt(body.token);
+
+    expect(body.expires_in).toBe(ACCESS_TOKEN_TTL_SECONDS);
+    expect(claims.exp! - claims.iat!).toBe(ACCESS_TOKEN_TTL_SECONDS);
+  });
+
+  it("keeps long-lived, revocable access tokens for clients that don't", async () => {
+    const body = await signIn(false);
+    const claims = decodeJwt(body.token);
+
+    expect(body.expires_in).toBe(NON_REFRESHING_ACCESS_TOKEN_TTL_SECONDS);
+    expect(claims.exp! - claims.iat!).toBe(NON_REFRESHING_ACCESS_TOKEN_TTL_SECONDS);
+    expect(claims.sid).toBe(body.session_id);
+    expect(await verifyAppToken(body.token)).not.toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import {
+  countActiveSessions,
+  getActiveSession,
+  touchSession,
+  type AppSession,
+} from "@/lib/db/app-sessions";
+import { getActiveSubscription } from "@/lib/db/subscription-repo";
+import { getTierDeviceLimit } from "@/lib/tiers";
+import type { Role } from "@/lib/roles";
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// For app builds that never read refresh_token; the session id in the token
+// still lets it be revoked before it expires
+export const NON_REFRESHING_ACCESS_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function getJwtSecret() {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "JWT secret is not configured. Set AUTH_SECRET or NEXTAUTH_SECRET environment variable."
+    );
+  }
+  return new TextEncoder().encode(secret);
+}
+
+export async function issueJWT(
+  payload: {
+    sub: string;
+    email: string;
+    name?: string | null;
+    role?: Role;
+    sid?: string;
+  },
+  expiresIn: string | number
+) {
+  return new SignJWT({
+    sub: payload.sub,
+    email: payload.email,
+    name: payload.name ?? null,
+    ...(payload.role ? { role: payload.role } : {}),
+    ...(payload.sid ? { sid: payload.sid } : {}),
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime(
+      typeof expiresIn === "number"
+        ? Math.floor(Date.now() / 1000) + expiresIn
+        : expiresIn
+    )
+    .sign(getJwtSecret());
+}
+
+/**
+ * How many app installs the user's plan lets them sign in at once, or null
+ * if there is no cap. Pass it to createAppSession to enforce it.
+ */
+export async function getDeviceLimit(userId: string): Promise<number | null> {
+  const subscription = await getActiveSubscription(userId);
+  return subscription ? getTierDeviceLimit(subscription.tier) : null;
+}
+
+/**
+ * Returns the user's device cap if signing in another install would exceed
+ * it, or null if a new session may be created. Only a preview: the cap is
+ * enforced when createAppSession inserts the session.
+ */
+export async function getReachedDeviceLimit(
+  userId: string
+): Promise<number | null> {
+  const deviceLimit = await getDeviceLimit(userId);
+  if (!deviceLimit) return null;
+
+  return (await countActiveSessions(userId)) >= deviceLimit
+    ? deviceLimit
+    : null;
+}
+
+export function deviceLimitMessage(deviceLimit: number): string {
+  return `Your plan allows ${deviceLimit} signed-in device${deviceLimit === 1 ? "" : "s"}. Sign out of another device from your account page to continue.`;
+}
+
+/**
+ * Response body for a signed-in app session. `token` is the access token,
+ * kept under that name for clients that predate refresh tokens. It is only
+ * short-lived for clients that say they refresh it (see clientSupportsRefresh).
+ */
+export async function buildSessionTokenResponse(
+  user: { id: string; email: string; name: string | null; role: Role },
+  session: AppSession,
+  refreshToken: string,
+  supportsRefresh: boolean
+) {
+  const expiresIn = supportsRefresh
+    ? ACCESS_TOKEN_TTL_SECONDS
+    : NON_REFRESHING_ACCESS_TOKEN_TTL_SECONDS;
+  const accessToken = await issueJWT(
+    {
+      sub: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      sid: session.id,
+    },
+    expiresIn
+  );
+
+  return {
+    token: accessToken,
+    token_type: "Bearer",
+    expires_in: expiresIn,
+    refresh_token: refreshToken,
+    session_id: session.id,
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+  };
+}
+
+// Tokens issued before sessions existed carry no session id; they stay valid
+// until they expire unless the user has since changed or reset their password
+// or asked to delete their account. JWT iat has second precision, so the
+// cutoff is compared in seconds too.
+async function isRevokedLegacyToken(
+  sub: string,
+  issuedAt: number | undefined
+): Promise<boolean> {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, sub),
+    columns: { tokensValidAfter: true },
+  });
+  if (!user?.tokensValidAfter) return false;
+  return (issuedAt ?? 0) < Math.floor(user.tokensValidAfter.getTime() / 1000);
+}
+
+/**
+ * Verifies an app JWT's signature and expiry and that its session (or, for
+ * legacy tokens, its user) hasn't been revoked. Returns null otherwise.
+ */
+export async function verifyAppToken(token: string): Promise<JWTPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getJwtSecret());
+    // Tokens for the retired env-configured admin, which had no account
+    if (!payload.sub || payload.sub.startsWith("admin:")) return null;
+
+    if (typeof payload.sid === "string") {
+      const session = await getActiveSession(payload.sid);
+      if (!session || session.userId !== payload.sub) return null;
+      await touchSession(session).catch((err) =>
+        console.error("Failed to record session activity:", err)
+      );
+    } else if (await isRevokedLegacyToken(payload.sub, payload.iat)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -1,12 +1,5 @@
-import { jwtVerify } from "jose";
 import { NextRequest } from "next/server";
-
-export function isAdminEmail(email: string | null | undefined): boolean {
-  if (!email) return false;
-  const adminEmail = process.env.ADMIN_EMAIL?.toLowerCase();
-  if (!adminEmail) return false;
-  return email.toLowerCase() === adminEmail;
-}
+import { verifyAppToken } from "@/lib/app-tokens";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -20,18 +13,7 @@ export async function verifyAuthToken(
   const authHeader = request.headers.get("authorization");
   if (!authHeader?.startsWith("Bearer ")) return null;
 
-  const token = authHeader.slice(7);
-  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
-  if (!secret) return null;
-
-  try {
-    const { payload } = await jwtVerify(
-      token,
-      new TextEncoder().encode(secret)
-    );
-    if (!payload.sub || !payload.email) return null;
-    return { sub: payload.sub as string, email: payload.email as string };
-  } catch {
-    return null;
-  }
+  const payload = await verifyAppToken(authHeader.slice(7));
+  if (!payload?.sub || !payload.email) return null;
+  return { sub: payload.sub, email: payload.email as string };
 }
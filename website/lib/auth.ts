@@ -1,4 +1,4 @@
-import NextAuth from "next-auth";
+import NextAuth, { CredentialsSignin } from "next-auth";
 import { DrizzleAdapter } from "@auth/drizzle-adapter";
 import Credentials from "next-auth/providers/credentials";
 import Google from "next-auth/providers/google";
@@ -8,6 +8,18 @@ import bcrypt from "bcryptjs";
 import { eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { authUsers, accounts, verificationTokens } from "@/lib/db/schema";
+import { isTwoFactorEnabled, verifySecondFactor } from "@/lib/two-factor";
+import { markVerifiedByProvider } from "@/lib/email-verification";
+
+// Surfaced to the login page as the sign-in result's `code`, so it can ask
+// for a 2FA code once the password has been accepted
+class TwoFactorRequired extends CredentialsSignin {
+  code = "two_factor_required";
+}
+
+class InvalidTwoFactorCode extends CredentialsSignin {
+  code = "invalid_two_factor_code";
+}
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: DrizzleAdapter(db, {
@@ -38,6 +50,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        otp: { label: "Authentication code", type: "text" },
       },
       async authorize(credentials) {
         const email = (credentials?.email as string | undefined)?.toLowerCase().trim();
@@ -54,6 +67,14 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         const valid = await bcrypt.compare(password, user.passwordHash);
         if (!valid) return null;
 
+        if (isTwoFactorEnabled(user)) {
+          const otp = credentials?.otp as string | undefined;
+          if (!otp) throw new TwoFactorRequired();
+          if (!(await verifySecondFactor(user, otp))) {
+            throw new InvalidTwoFactorCode();
+          }
+        }
+
         return {
           id: user.id,
           name: user.name,
@@ -63,11 +84,32 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       },
     }),
   ],
+  events: {
+    async linkAccount({ user, account, profile }) {
+      await markVerifiedByProvider(user, account, profile);
+    },
+  },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger }) {
       if (user) {
         token.id = user.id;
       }
+      // Loaded at sign-in, and again when the client asks after account
+      // details change (e.g. a confirmed email change) so the session doesn't
+      // keep stale values. The role claim is informational; privileged routes
+      // check the database (see lib/roles.ts).
+      const userId = user?.id ?? token.sub;
+      if ((user || trigger === "update") && userId) {
+        const current = await db.query.authUsers.findFirst({
+          where: eq(authUsers.id, userId),
+          columns: { email: true, name: true, role: true },
+        });
+        if (current) {
+          token.email = current.email;
+          token.name = current.name;
+          token.role = current.role;
+        }
+      }
       return token;
     },
     async session({ session, token }) {
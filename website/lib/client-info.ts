@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server";
+
+export function getClientIp(request: NextRequest): string {
+  // On Vercel, use the platform-verified IP header first
+  const vercelIp = request.headers.get("x-vercel-forwarded-for");
+  if (vercelIp) return vercelIp.split(",")[0]?.trim() || "anonymous";
+
+  // Fallback: use the last IP in x-forwarded-for (added by outermost trusted proxy)
+  const xff = request.headers.get("x-forwarded-for");
+  if (xff) {
+    const ips = xff.split(",").map((s) => s.trim()).filter(Boolean);
+    return ips[ips.length - 1] || "anonymous";
+  }
+
+  return request.headers.get("x-real-ip") || "anonymous";
+}
+
+// The app reports its version explicitly; older builds only identify
+// themselves through URLSession's default "EzLander/<build>" user agent.
+export function getClientVersion(request: NextRequest): string | null {
+  const explicit = request.headers.get("x-client-version");
+  if (explicit) return explicit.slice(0, 32);
+
+  const match = request.headers.get("user-agent")?.match(/^EzLander\/(\S+)/i);
+  return match ? match[1].slice(0, 32) : null;
+}
+
+// Builds that refresh their access token say so; older builds sign in again
+// whenever a request comes back 401, so they keep getting long-lived tokens.
+export function clientSupportsRefresh(request: NextRequest): boolean {
+  return request.headers.get("x-client-supports-refresh") === "1";
+}
@@ -0,0 +1,9 @@
+import type { NextRequest } from "next/server";
+
+// Vercel Cron sends CRON_SECRET as a bearer token; anything else (or a missing
+// secret) is rejected so the jobs can't be triggered publicly.
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import {
+  countActiveSessions,
+  createAppSession,
+  getActiveSession,
+  revokeSession,
+  rotateRefreshToken,
+} from "@/lib/db/app-sessions";
+
+const CLIENT = {
+  deviceName: "MacBook",
+  clientVersion: "1.4.0",
+  ipAddress: "127.0.0.1",
+};
+
+beforeAll(async () => {
+  await db.insert(authUsers).values([
+    { id: "user-capped", email: "capped@example.com" },
+    { id: "user-uncapped", email: "uncapped@example.com" },
+    { id: "user-revoked", email: "revoked@example.com" },
+    { id: "user-rotate", email: "rotate@example.com" },
+  ]);
+});
+
+describe("createAppSession", () => {
+  it("stores the session it returns", async () => {
+    const created = await createAppSession("user-uncapped", CLIENT);
+
+    expect(created).not.toBeNull();
+    expect(await getActiveSession(created!.session.id)).toEqual(
+      created!.session
+    );
+  });
+
+  it("never lets concurrent sign-ins exceed the cap", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        createAppSession("user-capped", CLIENT, 2)
+      )
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(2);
+    expect(await countActiveSessions("user-capped")).toBe(2);
+  });
+
+  it("frees a slot when a session is revoked", async () => {
+    const first = await createAppSession("user-revoked", CLIENT, 1);
+    expect(await createAppSession("user-revoked", CLIENT, 1)).toBeNull();
+
+    await revokeSession("user-revoked", first!.session.id);
+
+    expect(await createAppSession("user-revoked", CLIENT, 1)).not.toBeNull();
+  });
+
+  it("issues a refresh token that rotates", async () => {
+    const created = await createAppSession("user-rotate", CLIENT);
+
+    const rotated = await rotateRefreshToken(created!.refreshToken, CLIENT);
+
+    expect(rotated?.session.id).toBe(created!.session.id);
+    expect(await rotateRefreshToken(created!.refreshToken, CLIENT)).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { appSessions } from "@/lib/db/schema";
+import { eq, and, ne, gt, isNull, desc, count, sql } from "drizzle-orm";
+
+// Sliding: every refresh pushes the expiry out again, so only installs that
+// stay unused this long have to sign in again.
+const SESSION_TTL_MS = 60 * 24 * 60 * 60_000;
+// lastSeenAt is only rewritten once this stale, so authenticated requests
+// don't each cost a write.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60_000;
+
+export type AppSession = typeof appSessions.$inferSelect;
+
+export interface ClientInfo {
+  deviceName?: string | null;
+  clientVersion: string | null;
+  ipAddress: string | null;
+}
+
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// Refresh tokens are "<session id>.<secret>" so a refresh can find its session
+// without an index on the hash.
+function buildRefreshToken(sessionId: string, secret: string): string {
+  return `${sessionId}.${secret}`;
+}
+
+function parseRefreshToken(
+  refreshToken: string
+): { sessionId: string; secret: string } | null {
+  const separator = refreshToken.indexOf(".");
+  if (separator <= 0) return null;
+  return {
+    sessionId: refreshToken.slice(0, separator),
+    secret: refreshToken.slice(separator + 1),
+  };
+}
+
+function activeConditions(now: string) {
+  return [isNull(appSessions.revokedAt), gt(appSessions.expiresAt, now)];
+}
+
+/**
+ * Signs in a new app install. With `maxSessions`, the insert only succeeds if
+ * the user has fewer active sessions than that when SQLite executes it, so
+ * concurrent sign-ins cannot both take the last free slot; returns null when
+ * the cap is reached.
+ */
+export async function createAppSession(
+  userId: string,
+  client: ClientInfo,
+  maxSessions: number | null = null
+): Promise<{ session: AppSession; refreshToken: string } | null> {
+  const secret = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const nowIso = now.toISOString();
+
+  const session: AppSession = {
+    id: crypto.randomUUID(),
+    userId,
+    refreshTokenHash: hashToken(secret),
+    previousRefreshTokenHash: null,
+    deviceName: client.deviceName?.slice(0, 100) || null,
+    clientVersion: client.clientVersion,
+    ipAddress: client.ipAddress,
+    createdAt: nowIso,
+    lastSeenAt: nowIso,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+    revokedAt: null,
+  };
+
+  const withinLimit =
+    maxSessions === null
+      ? sql`1`
+      : sql`(
+          SELECT count(*) FROM ${appSessions}
+          WHERE ${and(eq(appSessions.userId, userId), ...activeConditions(nowIso))}
+        ) < ${maxSessions}`;
+
+  const result = await db.run(sql`
+    INSERT INTO ${appSessions} (id, user_id, refresh_token_hash, device_name, client_version, ip_address, created_at, last_seen_at, expires_at)
+    SELECT ${session.id}, ${userId}, ${session.refreshTokenHash}, ${session.deviceName}, ${session.clientVersion}, ${session.ipAddress}, ${nowIso}, ${nowIso}, ${session.expiresAt}
+    WHERE ${withinLimit}
+  `);
+
+  if (result.rowsAffected === 0) return null;
+  return { session, refreshToken: buildRefreshToken(session.id, secret) };
+}
+
+/**
+ * Exchanges a refresh token for a new one. The swap is conditional on the
+ * stored hash, so two concurrent refreshes with the same token can't both
+ * succeed. Replaying an already rotated token revokes the session.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: ClientInfo
+): Promise<{ session: AppSession; refreshToken: string } | null> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return null;
+
+  const presentedHash = hashToken(parsed.secret);
+  const nextSecret = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  const [session] = await db
+    .update(appSessions)
+    .set({
+      refreshTokenHash: hashToken(nextSecret),
+      previousRefreshTokenHash: presentedHash,
+      clientVersion: client.clientVersion,
+      ipAddress: client.ipAddress,
+      lastSeenAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+    })
+    .where(
+      and(
+        eq(appSessions.id, parsed.sessionId),
+        eq(appSessions.refreshTokenHash, presentedHash),
+        ...activeConditions(now.toISOString())
+      )
+    )
+    .returning();
+
+  if (session) {
+    return { session, refreshToken: buildRefreshToken(session.id, nextSecret) };
+  }
+
+  const reused = await db
+    .update(appSessions)
+    .set({ revokedAt: now.toISOString() })
+    .where(
+      and(
+        eq(appSessions.id, parsed.sessionId),
+        eq(appSessions.previousRefreshTokenHash, presentedHash),
+        isNull(appSessions.revokedAt)
+      )
+    )
+    .returning({ id: appSessions.id });
+
+  if (reused.length > 0) {
+    console.warn(`Refresh token reuse detected, revoked session ${parsed.sessionId}`);
+  }
+
+  return null;
+}
+
+export async function getActiveSession(
+  sessionId: string
+): Promise<AppSession | null> {
+  const session = await db.query.appSessions.findFirst({
+    where: and(
+      eq(appSessions.id, sessionId),
+      ...activeConditions(new Date().toISOString())
+    ),
+  });
+  return session ?? null;
+}
+
+/** Records activity on a session, at most once per LAST_SEEN_RESOLUTION_MS. */
+export async function touchSession(session: AppSession) {
+  const now = Date.now();
+  if (now - new Date(session.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return;
+  }
+
+  await db
+    .update(appSessions)
+    .set({ lastSeenAt: new Date(now).toISOString() })
+    .where(eq(appSessions.id, session.id));
+}
+
+/** The user's signed-in app installs, most recently active first. */
+export async function listActiveSessions(userId: string): Promise<AppSession[]> {
+  return db
+    .select()
+    .from(appSessions)
+    .where(
+      and(
+        eq(appSessions.userId, userId),
+        ...activeConditions(new Date().toISOString())
+      )
+    )
+    .orderBy(desc(appSessions.lastSeenAt));
+}
+
+export async function countActiveSessions(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(appSessions)
+    .where(
+      and(
+        eq(appSessions.userId, userId),
+        ...activeConditions(new Date().toISOString())
+      )
+    );
+  return row?.count ?? 0;
+}
+
+/** Revokes the session a refresh token belongs to, if the token is current. */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string
+): Promise<boolean> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return false;
+
+  const revoked = await db
+    .update(appSessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(appSessions.id, parsed.sessionId),
+        eq(appSessions.refreshTokenHash, hashToken(parsed.secret)),
+        isNull(appSessions.revokedAt)
+      )
+    )
+    .returning({ id: appSessions.id });
+
+  return revoked.length > 0;
+}
+
+export async function revokeSession(userId: string, sessionId: string) {
+  const revoked = await db
+    .update(appSessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(appSessions.id, sessionId),
+        eq(appSessions.userId, userId),
+        isNull(appSessions.revokedAt)
+      )
+    )
+    .returning({ id: appSessions.id });
+
+  return revoked.length > 0;
+}
+
+/** Signs the user out of every app install, optionally keeping one session. */
+export async function revokeUserSessions(
+  userId: string,
+  exceptSessionId?: string
+) {
+  await db
+    .update(appSessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(appSessions.userId, userId),
+        isNull(appSessions.revokedAt),
+        ...(exceptSessionId ? [ne(appSessions.id, exceptSessionId)] : [])
+      )
+    );
+}
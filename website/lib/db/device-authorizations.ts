@@ -0,0 +1,195 @@
+import { createHash, randomBytes, randomInt } from "crypto";
+import { db } from "@/lib/db";
+import { deviceAuthorizations } from "@/lib/db/schema";
+import { eq, and, gt, lt } from "drizzle-orm";
+import type { ClientInfo } from "@/lib/db/app-sessions";
+
+export const DEVICE_CODE_TTL_SECONDS = 15 * 60;
+const POLL_INTERVAL_SECONDS = 5;
+// RFC 8628 §3.5: each slow_down adds 5 seconds to the polling interval
+const SLOW_DOWN_STEP_SECONDS = 5;
+
+// No vowels, so generated codes can't spell words, and no letters that are
+// easily confused when read aloud or typed (e.g. I/L, O/Q)
+const USER_CODE_ALPHABET = "BCDFGHJKMNPRSTVWXZ";
+const USER_CODE_LENGTH = 8;
+
+export type DeviceAuthorization = typeof deviceAuthorizations.$inferSelect;
+
+export type DevicePollResult =
+  | { status: "invalid" | "expired" | "pending" | "slow_down" | "denied" }
+  | { status: "approved"; userId: string; authorization: DeviceAuthorization };
+
+function hashDeviceCode(deviceCode: string): string {
+  return createHash("sha256").update(deviceCode).digest("hex");
+}
+
+function generateUserCode(): string {
+  let code = "";
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Strips the separator and case users may type, e.g. "bcdf-ghjk" → "BCDFGHJK". */
+export function normalizeUserCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z]/g, "");
+}
+
+/** Formats a stored user code for display, e.g. "BCDFGHJK" → "BCDF-GHJK". */
+export function formatUserCode(userCode: string): string {
+  return `${userCode.slice(0, 4)}-${userCode.slice(4)}`;
+}
+
+export async function createDeviceAuthorization(client: ClientInfo): Promise<{
+  deviceCode: string;
+  userCode: string;
+  interval: number;
+}> {
+  const now = new Date();
+
+  // Expired requests are only kept long enough to answer late polls with
+  // expired_token instead of an unknown code
+  await db
+    .delete(deviceAuthorizations)
+    .where(
+      lt(
+        deviceAuthorizations.expiresAt,
+        new Date(now.getTime() - 24 * 60 * 60_000).toISOString()
+      )
+    );
+
+  const deviceCode = randomBytes(32).toString("base64url");
+
+  // User codes are short enough to collide occasionally; retry with a new one
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const userCode = generateUserCode();
+    const [row] = await db
+      .insert(deviceAuthorizations)
+      .values({
+        deviceCodeHash: hashDeviceCode(deviceCode),
+        userCode,
+        deviceName: client.deviceName?.slice(0, 100) || null,
+        clientVersion: client.clientVersion,
+        ipAddress: client.ipAddress,
+        pollIntervalSeconds: POLL_INTERVAL_SECONDS,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(
+          now.getTime() + DEVICE_CODE_TTL_SECONDS * 1000
+        ).toISOString(),
+      })
+      .onConflictDoNothing({ target: deviceAuthorizations.userCode })
+      .returning();
+
+    if (row) {
+      return { deviceCode, userCode, interval: row.pollIntervalSeconds };
+    }
+  }
+
+  throw new Error("Could not allocate a unique device user code");
+}
+
+/** Looks up a request awaiting approval by the code the user typed. */
+export async function getPendingDeviceAuthorization(
+  userCode: string
+): Promise<DeviceAuthorization | null> {
+  const row = await db.query.deviceAuthorizations.findFirst({
+    where: and(
+      eq(deviceAuthorizations.userCode, normalizeUserCode(userCode)),
+      eq(deviceAuthorizations.status, "pending"),
+      gt(deviceAuthorizations.expiresAt, new Date().toISOString())
+    ),
+  });
+  return row ?? null;
+}
+
+/**
+ * Records the signed-in user's decision on a pending request. Returns false if
+ * the code is unknown, expired or already decided.
+ */
+export async function resolveDeviceAuthorization(
+  userCode: string,
+  userId: string,
+  decision: "approved" | "denied"
+): Promise<boolean> {
+  const updated = await db
+    .update(deviceAuthorizations)
+    .set({ status: decision, userId })
+    .where(
+      and(
+        eq(deviceAuthorizations.userCode, normalizeUserCode(userCode)),
+        eq(deviceAuthorizations.status, "pending"),
+        gt(deviceAuthorizations.expiresAt, new Date().toISOString())
+      )
+    )
+    .returning({ id: deviceAuthorizations.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Handles one poll from the app. An approved request is marked consumed by
+ * the same conditional update that hands it out, so it can only be exchanged
+ * for a session once.
+ */
+export async function pollDeviceAuthorization(
+  deviceCode: string
+): Promise<DevicePollResult> {
+  const authorization = await db.query.deviceAuthorizations.findFirst({
+    where: eq(deviceAuthorizations.deviceCodeHash, hashDeviceCode(deviceCode)),
+  });
+
+  if (!authorization || authorization.status === "consumed") {
+    return { status: "invalid" };
+  }
+
+  const now = new Date();
+  if (authorization.expiresAt <= now.toISOString()) {
+    return { status: "expired" };
+  }
+
+  const lastPolledAt = authorization.lastPolledAt
+    ? new Date(authorization.lastPolledAt).getTime()
+    : 0;
+  const tooSoon =
+    now.getTime() - lastPolledAt < authorization.pollIntervalSeconds * 1000;
+
+  await db
+    .update(deviceAuthorizations)
+    .set({
+      lastPolledAt: now.toISOString(),
+      ...(tooSoon
+        ? {
+            pollIntervalSeconds:
+              authorization.pollIntervalSeconds + SLOW_DOWN_STEP_SECONDS,
+          }
+        : {}),
+    })
+    .where(eq(deviceAuthorizations.id, authorization.id));
+
+  if (tooSoon) return { status: "slow_down" };
+  if (authorization.status === "pending") return { status: "pending" };
+  if (authorization.status === "denied" || !authorization.userId) {
+    return { status: "denied" };
+  }
+
+  const [consumed] = await db
+    .update(deviceAuthorizations)
+    .set({ status: "consumed" })
+    .where(
+      and(
+        eq(deviceAuthorizations.id, authorization.id),
+        eq(deviceAuthorizations.status, "approved")
+      )
+    )
+    .returning();
+
+  if (!consumed) return { status: "invalid" };
+
+  return {
+    status: "approved",
+    userId: authorization.userId,
+    authorization: consumed,
+  };
+}
@@ -0,0 +1,111 @@
+import { db } from "@/lib/db";
+import { emailOutbox } from "@/lib/db/schema";
+import { eq, and, lte, asc } from "drizzle-orm";
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_MS = 60_000;
+// How long a claimed message is hidden from other workers while it is being
+// delivered; a crashed delivery is retried once this passes.
+const CLAIM_LEASE_MS = 2 * 60_000;
+
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+
+/**
+ * Adds a rendered message to the outbox. Returns null when a message with the
+ * same dedupe key was already queued.
+ */
+export async function enqueueEmail(data: {
+  to: string;
+  template: string;
+  subject: string;
+  text: string;
+  html?: string;
+  dedupeKey?: string;
+}): Promise<OutboxEmail | null> {
+  const [row] = await db
+    .insert(emailOutbox)
+    .values({
+      ...data,
+      nextAttemptAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+    .returning();
+
+  return row ?? null;
+}
+
+/**
+ * Leases a pending message for delivery by pushing its next attempt into the
+ * future. Returns false if another worker claimed it first.
+ */
+export async function claimEmail(email: OutboxEmail): Promise<boolean> {
+  const result = await db
+    .update(emailOutbox)
+    .set({
+      nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS).toISOString(),
+    })
+    .where(
+      and(
+        eq(emailOutbox.id, email.id),
+        eq(emailOutbox.status, "pending"),
+        eq(emailOutbox.nextAttemptAt, email.nextAttemptAt)
+      )
+    )
+    .returning({ id: emailOutbox.id });
+
+  return result.length > 0;
+}
+
+export async function getDueEmails(limit: number): Promise<OutboxEmail[]> {
+  return db
+    .select()
+    .from(emailOutbox)
+    .where(
+      and(
+        eq(emailOutbox.status, "pending"),
+        lte(emailOutbox.nextAttemptAt, new Date().toISOString())
+      )
+    )
+    .orderBy(asc(emailOutbox.nextAttemptAt))
+    .limit(limit);
+}
+
+// Bodies can hold single-use links (password resets, verification), so they
+// are only kept for as long as the message may still be delivered
+const CLEARED_BODY = { text: "", html: null };
+
+export async function markEmailSent(id: number) {
+  await db
+    .update(emailOutbox)
+    .set({
+      status: "sent",
+      sentAt: new Date().toISOString(),
+      lastError: null,
+      ...CLEARED_BODY,
+    })
+    .where(eq(emailOutbox.id, id));
+}
+
+/**
+ * Records a failed delivery and schedules the next attempt with exponential
+ * backoff (1m, 2m, 4m, ...), giving up after MAX_ATTEMPTS and discarding the
+ * body.
+ */
+export async function markEmailFailed(email: OutboxEmail, error: string) {
+  const attempts = email.attempts + 1;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+
+  await db
+    .update(emailOutbox)
+    .set({
+      attempts,
+      status: exhausted ? "failed" : "pending",
+      lastError: error.slice(0, 1000),
+      ...(exhausted ? CLEARED_BODY : {}),
+      nextAttemptAt: new Date(
+        Date.now() + BASE_RETRY_MS * 2 ** (attempts - 1)
+      ).toISOString(),
+    })
+    .where(eq(emailOutbox.id, email.id));
+}
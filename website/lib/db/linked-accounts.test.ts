@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "@/lib/db";
+import { accounts, authUsers } from "@/lib/db/schema";
+import { listLinkedProviders, unlinkProvider } from "@/lib/db/linked-accounts";
+
+const USER_ID = "user-linked";
+
+async function link(provider: string) {
+  await db.insert(accounts).values({
+    userId: USER_ID,
+    type: "oauth",
+    provider,
+    providerAccountId: `${provider}-1`,
+  });
+}
+
+beforeEach(async () => {
+  await db.delete(accounts);
+  await db.delete(authUsers);
+  await db.insert(authUsers).values({ id: USER_ID, email: "linked@example.com" });
+});
+
+describe("unlinkProvider", () => {
+  it("keeps the last way to sign in", async () => {
+    await link("google");
+
+    expect(await unlinkProvider(USER_ID, "google")).toBe("last_sign_in_method");
+    expect(await unlinkProvider(USER_ID, "github")).toBe("not_linked");
+    expect(await listLinkedProviders(USER_ID)).toEqual(["google"]);
+  });
+
+  it("unlinks a provider while a password or another provider remains", async () => {
+    await link("google");
+    await link("github");
+
+    expect(await unlinkProvider(USER_ID, "google")).toBe("unlinked");
+    expect(await unlinkProvider(USER_ID, "github")).toBe("last_sign_in_method");
+
+    await db.update(authUsers).set({ passwordHash: "hash" });
+    expect(await unlinkProvider(USER_ID, "github")).toBe("unlinked");
+    expect(await listLinkedProviders(USER_ID)).toEqual([]);
+  });
+
+  it("leaves one provider when both are unlinked at once", async () => {
+    await link("google");
+    await link("github");
+
+    const results = await Promise.all([
+      unlinkProvider(USER_ID, "google"),
+      unlinkProvider(USER_ID, "github"),
+    ]);
+
+    expect(results.sort()).toEqual(["last_sign_in_method", "unlinked"]);
+    expect(await listLinkedProviders(USER_ID)).toHaveLength(1);
+  });
+});
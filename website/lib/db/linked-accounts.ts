@@ -0,0 +1,60 @@
+import { db } from "@/lib/db";
+import { accounts, authUsers } from "@/lib/db/schema";
+import { alias } from "drizzle-orm/sqlite-core";
+import { and, eq, exists, isNotNull, ne, or } from "drizzle-orm";
+
+export async function listLinkedProviders(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ provider: accounts.provider })
+    .from(accounts)
+    .where(eq(accounts.userId, userId));
+  return rows.map((row) => row.provider);
+}
+
+export type UnlinkResult = "unlinked" | "not_linked" | "last_sign_in_method";
+
+/**
+ * Removes a linked provider, refusing if it is the user's only way to sign
+ * in (no password and no other provider). The check is part of the delete,
+ * so two concurrent unlinks can't remove the last two methods.
+ */
+export async function unlinkProvider(
+  userId: string,
+  provider: string
+): Promise<UnlinkResult> {
+  const otherAccounts = alias(accounts, "other_account");
+
+  const removed = await db
+    .delete(accounts)
+    .where(
+      and(
+        eq(accounts.userId, userId),
+        eq(accounts.provider, provider),
+        or(
+          exists(
+            db
+              .select({ id: authUsers.id })
+              .from(authUsers)
+              .where(and(eq(authUsers.id, userId), isNotNull(authUsers.passwordHash)))
+          ),
+          exists(
+            db
+              .select({ provider: otherAccounts.provider })
+              .from(otherAccounts)
+              .where(
+                and(
+                  eq(otherAccounts.userId, userId),
+                  ne(otherAccounts.provider, provider)
+                )
+              )
+          )
+        )
+      )
+    )
+    .returning({ provider: accounts.provider });
+
+  if (removed.length > 0) return "unlinked";
+
+  const providers = await listLinkedProviders(userId);
+  return providers.includes(provider) ? "last_sign_in_method" : "not_linked";
+}
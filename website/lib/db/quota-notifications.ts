@@ -0,0 +1,54 @@
+import { db } from "@/lib/db";
+import { quotaNotifications } from "@/lib/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+/**
+ * Records the thresholds a period's usage has crossed. Each threshold is only
+ * recorded once per period, so concurrent settlements crossing the same one
+ * race on the unique index and exactly one of them gets it back.
+ *
+ * Returns the thresholds that were newly recorded by this call.
+ */
+export async function recordCrossedThresholds(data: {
+  userId: string;
+  periodStart: string;
+  thresholds: number[];
+  tokensUsed: number;
+  tokenLimit: number;
+}): Promise<number[]> {
+  if (data.thresholds.length === 0) return [];
+
+  const inserted = await db
+    .insert(quotaNotifications)
+    .values(
+      data.thresholds.map((threshold) => ({
+        userId: data.userId,
+        periodStart: data.periodStart,
+        threshold,
+        tokensUsed: data.tokensUsed,
+        tokenLimit: data.tokenLimit,
+        createdAt: new Date().toISOString(),
+      }))
+    )
+    .onConflictDoNothing()
+    .returning({ threshold: quotaNotifications.threshold });
+
+  return inserted.map((row) => row.threshold);
+}
+
+export async function markThresholdsEmailed(
+  userId: string,
+  periodStart: string,
+  thresholds: number[]
+) {
+  await db
+    .update(quotaNotifications)
+    .set({ emailedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(quotaNotifications.userId, userId),
+        eq(quotaNotifications.periodStart, periodStart),
+        inArray(quotaNotifications.threshold, thresholds)
+      )
+    );
+}
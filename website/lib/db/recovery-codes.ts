@@ -0,0 +1,77 @@
+import { createHash, randomInt } from "crypto";
+import { db } from "@/lib/db";
+import { recoveryCodes } from "@/lib/db/schema";
+import { eq, and, isNull, count } from "drizzle-orm";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// Only a hash is stored, so a leaked table can't be used to bypass 2FA.
+function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+/** Accepts codes with or without the dash and in any case. */
+function normalizeCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function generateCode(): string {
+  let code = "";
+  for (let i = 0; i < 10; i++) {
+    code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set. Returns the raw codes,
+ * which are shown to the user once and never again.
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode);
+
+  await db.batch([
+    db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId)),
+    db.insert(recoveryCodes).values(
+      codes.map((code) => ({
+        userId,
+        codeHash: hashCode(normalizeCode(code)),
+      }))
+    ),
+  ]);
+
+  return codes;
+}
+
+/** Marks a matching unused code as used. Returns false if there was none. */
+export async function consumeRecoveryCode(
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const used = await db
+    .update(recoveryCodes)
+    .set({ usedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, hashCode(normalizeCode(code))),
+        isNull(recoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: recoveryCodes.id });
+
+  return used.length > 0;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  return row?.count ?? 0;
+}
+
+export async function deleteRecoveryCodes(userId: string) {
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+}
@@ -4,14 +4,21 @@ import {
   integer,
   primaryKey,
   uniqueIndex,
+  index,
 } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 import type { AdapterAccountType } from "next-auth/adapters";
 
 // ── Existing referral tables (unchanged) ──────────────────────────────
 
+// Referral profile. Keyed by email for historical reasons; userId links it to
+// the account and is what lookups should use. The email is kept in step with
+// auth_user.email (see updateAccountEmail in lib/account.ts).
 export const users = sqliteTable("users", {
   email: text("email").primaryKey(),
+  userId: text("user_id")
+    .unique()
+    .references(() => authUsers.id),
   referralCode: text("referral_code").unique().notNull(),
   referralCreditsDays: integer("referral_credits_days").default(0).notNull(),
   referralsCount: integer("referrals_count").default(0).notNull(),
@@ -24,10 +31,14 @@ export const users = sqliteTable("users", {
 export const referrals = sqliteTable("referrals", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   referrerEmail: text("referrer_email")
-    .references(() => users.email)
+    .references(() => users.email, { onUpdate: "cascade" })
     .notNull(),
   referredEmail: text("referred_email").notNull(),
-  status: text("status", { enum: ["pending", "completed"] })
+  referrerUserId: text("referrer_user_id").references(() => authUsers.id),
+  referredUserId: text("referred_user_id").references(() => authUsers.id),
+  // "reversed" once the referred customer's payment was refunded or disputed
+  // and the referrer's reward taken back
+  status: text("status", { enum: ["pending", "completed", "reversed"] })
     .default("pending")
     .notNull(),
   createdAt: text("created_at")
@@ -47,6 +58,30 @@ export const authUsers = sqliteTable("auth_user", {
   emailVerified: integer("emailVerified", { mode: "timestamp_ms" }),
   image: text("image"),
   passwordHash: text("password_hash"),
+  // Session-less app JWTs issued before this instant are rejected (set by
+  // password resets; session tokens are revoked through app_sessions)
+  tokensValidAfter: integer("tokens_valid_after", { mode: "timestamp_ms" }),
+  // Encrypted TOTP secret; set during enrollment, but only enforced once
+  // totpEnabledAt is set
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: integer("totp_enabled_at", { mode: "timestamp_ms" }),
+  // Last accepted 30s time step, so a code can't be replayed within its window
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // Second-factor attempts in the current window; kept here rather than in
+  // memory so every server instance counts against the same limit
+  totpAttempts: integer("totp_attempts").default(0).notNull(),
+  totpAttemptsResetAt: integer("totp_attempts_reset_at", { mode: "timestamp_ms" }),
+  // Set when the user asks to delete their account; personal data is purged
+  // once this passes unless the request is cancelled
+  deletionScheduledFor: integer("deletion_scheduled_for", {
+    mode: "timestamp_ms",
+  }),
+  // Address the user asked to switch to; replaces email once confirmed from
+  // a link sent to it
+  pendingEmail: text("pending_email"),
+  role: text("role", { enum: ["user", "support", "admin"] })
+    .default("user")
+    .notNull(),
 });
 
 export const accounts = sqliteTable(
@@ -100,11 +135,18 @@ export const subscriptions = sqliteTable(
     stripeSubscriptionId: text("stripe_subscription_id"),
     tier: text("tier", { enum: ["pro", "max"] }).notNull(),
     status: text("status", {
-      enum: ["active", "trialing", "canceled", "past_due", "expired"],
+      enum: ["active", "trialing", "canceled", "past_due", "paused", "expired"],
     })
       .default("active")
       .notNull(),
+    currentPeriodStart: text("current_period_start"),
     currentPeriodEnd: text("current_period_end"),
+    // When the subscription first went past_due, cleared once it's paid; the
+    // dunning grace period runs from here
+    pastDueSince: text("past_due_since"),
+    // `created` (unix seconds) of the newest Stripe event applied to the row,
+    // so an older event delivered late can't overwrite newer state
+    stripeEventAt: integer("stripe_event_at"),
     createdAt: text("created_at")
       .default(sql`(current_timestamp)`)
       .notNull(),
@@ -124,11 +166,16 @@ export const tokenUsage = sqliteTable(
     userId: text("user_id")
       .references(() => authUsers.id)
       .notNull(),
-    periodStart: text("period_start").notNull(), // "YYYY-MM" format
+    // ISO timestamps bounding the usage window: the subscription's billing
+    // cycle split into monthly windows, or the UTC calendar month without one
+    periodStart: text("period_start").notNull(),
+    periodEnd: text("period_end"),
     promptTokens: integer("prompt_tokens").default(0).notNull(),
     completionTokens: integer("completion_tokens").default(0).notNull(),
     totalTokens: integer("total_tokens").default(0).notNull(),
     requestCount: integer("request_count").default(0).notNull(),
+    // Portion of total_tokens beyond the tier limit, paid for from token_credits
+    creditTokens: integer("credit_tokens").default(0).notNull(),
     createdAt: text("created_at")
       .default(sql`(current_timestamp)`)
       .notNull(),
@@ -143,3 +190,250 @@ export const tokenUsage = sqliteTable(
     ),
   })
 );
+
+// Purchased token packs. Both totals are recomputed from their sources
+// (token_credit_purchases and token_usage.credit_tokens) rather than
+// incremented, so replayed webhooks and retried settlements cannot drift them.
+export const tokenCredits = sqliteTable("token_credits", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => authUsers.id),
+  purchasedTokens: integer("purchased_tokens").default(0).notNull(),
+  consumedTokens: integer("consumed_tokens").default(0).notNull(),
+  updatedAt: text("updated_at")
+    .default(sql`(current_timestamp)`)
+    .notNull(),
+});
+
+export const tokenCreditPurchases = sqliteTable("token_credit_purchases", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id")
+    .references(() => authUsers.id)
+    .notNull(),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id").unique().notNull(),
+  pack: text("pack").notNull(),
+  tokens: integer("tokens").notNull(),
+  createdAt: text("created_at")
+    .default(sql`(current_timestamp)`)
+    .notNull(),
+});
+
+// Quota held by in-flight AI requests. A reservation is deleted when its request
+// settles; expired rows (e.g. from a crashed instance) stop counting.
+export const tokenReservations = sqliteTable(
+  "token_reservations",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .references(() => authUsers.id)
+      .notNull(),
+    periodStart: text("period_start").notNull(),
+    tokens: integer("tokens").notNull(),
+    expiresAt: text("expires_at").notNull(),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    userPeriodIdx: index("token_reservations_user_period_idx").on(
+      table.userId,
+      table.periodStart
+    ),
+  })
+);
+
+// Append-only ledger of proxied AI requests; token_usage keeps the per-period
+// totals used for quota checks.
+export const usageEvents = sqliteTable(
+  "usage_events",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: text("user_id")
+      .references(() => authUsers.id)
+      .notNull(),
+    model: text("model").notNull(),
+    promptTokens: integer("prompt_tokens").default(0).notNull(),
+    completionTokens: integer("completion_tokens").default(0).notNull(),
+    totalTokens: integer("total_tokens").default(0).notNull(),
+    latencyMs: integer("latency_ms").notNull(),
+    streaming: integer("streaming", { mode: "boolean" }).notNull(),
+    status: text("status", { enum: ["completed", "aborted", "failed"] }).notNull(),
+    clientVersion: text("client_version"),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    userCreatedIdx: index("usage_events_user_created_idx").on(
+      table.userId,
+      table.createdAt
+    ),
+  })
+);
+
+// Quota thresholds a user has been warned about, one row per threshold per
+// usage period so each warning is only sent once.
+export const quotaNotifications = sqliteTable(
+  "quota_notifications",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: text("user_id")
+      .references(() => authUsers.id)
+      .notNull(),
+    periodStart: text("period_start").notNull(),
+    threshold: integer("threshold").notNull(),
+    tokensUsed: integer("tokens_used").notNull(),
+    tokenLimit: integer("token_limit").notNull(),
+    emailedAt: text("emailed_at"),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    userPeriodThresholdIdx: uniqueIndex(
+      "quota_notifications_user_period_threshold_idx"
+    ).on(table.userId, table.periodStart, table.threshold),
+  })
+);
+
+// Outgoing transactional email. Messages are rendered when queued and retried
+// with backoff until delivered or out of attempts.
+export const emailOutbox = sqliteTable(
+  "email_outbox",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    to: text("to").notNull(),
+    template: text("template").notNull(),
+    subject: text("subject").notNull(),
+    text: text("text").notNull(),
+    html: text("html"),
+    // Set for emails triggered by retried events (e.g. webhooks) so each is
+    // only queued once
+    dedupeKey: text("dedupe_key").unique(),
+    status: text("status", { enum: ["pending", "sent", "failed"] })
+      .default("pending")
+      .notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: text("next_attempt_at").notNull(),
+    lastError: text("last_error"),
+    sentAt: text("sent_at"),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    statusNextAttemptIdx: index("email_outbox_status_next_attempt_idx").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  })
+);
+
+// Signed-in app installs. Access JWTs carry the session id and are rejected
+// once it is revoked; the refresh token (stored hashed) rotates on every use.
+export const appSessions = sqliteTable(
+  "app_sessions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .references(() => authUsers.id, { onDelete: "cascade" })
+      .notNull(),
+    refreshTokenHash: text("refresh_token_hash").notNull(),
+    // The hash rotated out by the last refresh; presenting it again means the
+    // token was copied, so the session is revoked
+    previousRefreshTokenHash: text("previous_refresh_token_hash"),
+    deviceName: text("device_name"),
+    clientVersion: text("client_version"),
+    ipAddress: text("ip_address"),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+    lastSeenAt: text("last_seen_at").notNull(),
+    expiresAt: text("expires_at").notNull(),
+    revokedAt: text("revoked_at"),
+  },
+  (table) => ({
+    userIdx: index("app_sessions_user_idx").on(table.userId),
+  })
+);
+
+// Pending app sign-ins from the device authorization flow (RFC 8628). The app
+// polls with the device code (stored hashed) while the user approves the short
+// user code on the website.
+export const deviceAuthorizations = sqliteTable("device_authorizations", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  deviceCodeHash: text("device_code_hash").notNull().unique(),
+  userCode: text("user_code").notNull().unique(),
+  status: text("status", {
+    enum: ["pending", "approved", "denied", "consumed"],
+  })
+    .default("pending")
+    .notNull(),
+  // Set once the user approves or denies the request
+  userId: text("user_id").references(() => authUsers.id, {
+    onDelete: "cascade",
+  }),
+  deviceName: text("device_name"),
+  clientVersion: text("client_version"),
+  ipAddress: text("ip_address"),
+  pollIntervalSeconds: integer("poll_interval_seconds").notNull(),
+  lastPolledAt: text("last_polled_at"),
+  createdAt: text("created_at")
+    .default(sql`(current_timestamp)`)
+    .notNull(),
+  expiresAt: text("expires_at").notNull(),
+});
+
+// One-time 2FA recovery codes, stored hashed. Regenerating replaces the set.
+export const recoveryCodes = sqliteTable(
+  "recovery_codes",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: text("user_id")
+      .references(() => authUsers.id, { onDelete: "cascade" })
+      .notNull(),
+    codeHash: text("code_hash").notNull(),
+    usedAt: text("used_at"),
+    createdAt: text("created_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("recovery_codes_user_idx").on(table.userId),
+  })
+);
+
+// Every Stripe webhook event received, so redeliveries are handled once and
+// failures can be inspected and replayed
+export const stripeEvents = sqliteTable(
+  "stripe_events",
+  {
+    id: text("id").primaryKey(),
+    type: text("type").notNull(),
+    // ID of the object the event is about, e.g. the subscription
+    objectId: text("object_id"),
+    // Stripe's `created`, unix seconds
+    eventCreatedAt: integer("event_created_at").notNull(),
+    payload: text("payload").notNull(),
+    status: text("status", {
+      enum: ["processing", "processed", "ignored", "failed"],
+    }).notNull(),
+    attempts: integer("attempts").default(1).notNull(),
+    lastError: text("last_error"),
+    // A delivery still "processing" after this is assumed to have crashed
+    leaseExpiresAt: text("lease_expires_at"),
+    processedAt: text("processed_at"),
+    receivedAt: text("received_at")
+      .default(sql`(current_timestamp)`)
+      .notNull(),
+  },
+  (table) => ({
+    statusIdx: index("stripe_events_status_idx").on(table.status),
+  })
+);
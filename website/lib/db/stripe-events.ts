@@ -0,0 +1,129 @@
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import { stripeEvents } from "@/lib/db/schema";
+import { eq, and, or, lte, desc, sql } from "drizzle-orm";
+
+// How long a delivery may run before another delivery of the same event (or
+// a replay) is allowed to take over
+const PROCESSING_LEASE_MS = 5 * 60_000;
+
+export type StripeEventRecord = typeof stripeEvents.$inferSelect;
+
+export type StripeEventStatus = StripeEventRecord["status"];
+
+export const STRIPE_EVENT_STATUSES = stripeEvents.status.enumValues;
+
+export type StripeEventClaim = "claimed" | "duplicate" | "in_progress";
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + PROCESSING_LEASE_MS).toISOString();
+}
+
+/**
+ * Records the event and takes the right to process it. Returns "duplicate"
+ * if it was already handled and "in_progress" while another delivery holds
+ * it. Failed events, and deliveries whose lease ran out, can be claimed again.
+ */
+export async function claimStripeEvent(
+  event: Stripe.Event
+): Promise<StripeEventClaim> {
+  const object = event.data.object as { id?: unknown };
+
+  const [inserted] = await db
+    .insert(stripeEvents)
+    .values({
+      id: event.id,
+      type: event.type,
+      objectId: typeof object.id === "string" ? object.id : null,
+      eventCreatedAt: event.created,
+      payload: JSON.stringify(event),
+      status: "processing",
+      leaseExpiresAt: leaseExpiry(),
+    })
+    .onConflictDoNothing()
+    .returning({ id: stripeEvents.id });
+  if (inserted) return "claimed";
+
+  const now = new Date().toISOString();
+  const [retried] = await db
+    .update(stripeEvents)
+    .set({
+      status: "processing",
+      attempts: sql`${stripeEvents.attempts} + 1`,
+      leaseExpiresAt: leaseExpiry(),
+    })
+    .where(
+      and(
+        eq(stripeEvents.id, event.id),
+        or(
+          eq(stripeEvents.status, "failed"),
+          and(
+            eq(stripeEvents.status, "processing"),
+            lte(stripeEvents.leaseExpiresAt, now)
+          )
+        )
+      )
+    )
+    .returning({ id: stripeEvents.id });
+  if (retried) return "claimed";
+
+  const existing = await getStripeEvent(event.id);
+  return existing?.status === "processing" ? "in_progress" : "duplicate";
+}
+
+export async function markStripeEventDone(
+  id: string,
+  status: "processed" | "ignored"
+) {
+  await db
+    .update(stripeEvents)
+    .set({
+      status,
+      lastError: null,
+      leaseExpiresAt: null,
+      processedAt: new Date().toISOString(),
+    })
+    .where(eq(stripeEvents.id, id));
+}
+
+export async function markStripeEventFailed(id: string, error: unknown) {
+  await db
+    .update(stripeEvents)
+    .set({
+      status: "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+      leaseExpiresAt: null,
+    })
+    .where(eq(stripeEvents.id, id));
+}
+
+export async function getStripeEvent(
+  id: string
+): Promise<StripeEventRecord | null> {
+  const row = await db.query.stripeEvents.findFirst({
+    where: eq(stripeEvents.id, id),
+  });
+  return row ?? null;
+}
+
+export async function listStripeEvents(
+  status: StripeEventStatus,
+  limit: number
+) {
+  return db
+    .select({
+      id: stripeEvents.id,
+      type: stripeEvents.type,
+      objectId: stripeEvents.objectId,
+      eventCreatedAt: stripeEvents.eventCreatedAt,
+      status: stripeEvents.status,
+      attempts: stripeEvents.attempts,
+      lastError: stripeEvents.lastError,
+      receivedAt: stripeEvents.receivedAt,
+      processedAt: stripeEvents.processedAt,
+    })
+    .from(stripeEvents)
+    .where(eq(stripeEvents.status, status))
+    .orderBy(desc(stripeEvents.receivedAt))
+    .limit(limit);
+}
@@ -1,9 +1,16 @@
 import { db } from "@/lib/db";
 import { subscriptions } from "@/lib/db/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, or, gt, inArray, isNull, lte, sql } from "drizzle-orm";
 import type { SubscriptionTier } from "@/lib/tiers";
+import { getGraceCutoff, getGraceUntil } from "@/lib/dunning";
 
-export type SubscriptionStatus = "active" | "trialing" | "canceled" | "past_due" | "expired";
+export type SubscriptionStatus =
+  | "active"
+  | "trialing"
+  | "canceled"
+  | "past_due"
+  | "paused"
+  | "expired";
 const ACTIVE_STATUSES: SubscriptionStatus[] = ["active", "trialing"];
 
 export interface ActiveSubscription {
@@ -11,16 +18,30 @@ export interface ActiveSubscription {
   status: string;
   stripeCustomerId: string | null;
   stripeSubscriptionId: string | null;
+  currentPeriodStart: string | null;
   currentPeriodEnd: string | null;
+  // Set while a past_due subscription is kept going by the dunning grace
+  // period, which ends at this time
+  graceUntil: string | null;
 }
 
+/**
+ * The user's subscription if it grants access: active, trialing, or past_due
+ * within the dunning grace period.
+ */
 export async function getActiveSubscription(
   userId: string
 ): Promise<ActiveSubscription | null> {
   const sub = await db.query.subscriptions.findFirst({
     where: and(
       eq(subscriptions.userId, userId),
-      inArray(subscriptions.status, ACTIVE_STATUSES)
+      or(
+        inArray(subscriptions.status, ACTIVE_STATUSES),
+        and(
+          eq(subscriptions.status, "past_due"),
+          gt(subscriptions.pastDueSince, getGraceCutoff().toISOString())
+        )
+      )
     ),
   });
 
@@ -31,10 +52,38 @@ export async function getActiveSubscription(
     status: sub.status,
     stripeCustomerId: sub.stripeCustomerId,
     stripeSubscriptionId: sub.stripeSubscriptionId,
+    currentPeriodStart: sub.currentPeriodStart,
     currentPeriodEnd: sub.currentPeriodEnd,
+    graceUntil:
+      sub.status === "past_due" && sub.pastDueSince
+        ? getGraceUntil(sub.pastDueSince).toISOString()
+        : null,
   };
 }
 
+// Keeps the time of the first failure for as long as the subscription stays
+// past_due, and clears it once it leaves
+function pastDueSinceFor(status: SubscriptionStatus, now: string) {
+  return status === "past_due"
+    ? sql`coalesce(${subscriptions.pastDueSince}, ${now})`
+    : null;
+}
+
+// Guards writes driven by a Stripe event: rows already updated from a newer
+// event are left alone
+function appliesEvent(stripeEventAt: number | undefined) {
+  return stripeEventAt === undefined
+    ? undefined
+    : or(
+        isNull(subscriptions.stripeEventAt),
+        lte(subscriptions.stripeEventAt, stripeEventAt)
+      );
+}
+
+/**
+ * Creates or replaces the user's subscription row. Returns false if the row
+ * reflects a newer Stripe event than `stripeEventAt` and was left unchanged.
+ */
 export async function upsertSubscription(
   userId: string,
   data: {
@@ -42,9 +91,11 @@ export async function upsertSubscription(
     stripeSubscriptionId: string;
     tier: SubscriptionTier;
     status: SubscriptionStatus;
+    currentPeriodStart: string;
     currentPeriodEnd: string;
+    stripeEventAt?: number;
   }
-) {
+): Promise<boolean> {
   const now = new Date().toISOString();
 
   const existing = await db.query.subscriptions.findFirst({
@@ -52,47 +103,130 @@ export async function upsertSubscription(
   });
 
   if (existing) {
-    await db
+    const updated = await db
       .update(subscriptions)
       .set({
         stripeCustomerId: data.stripeCustomerId,
         stripeSubscriptionId: data.stripeSubscriptionId,
         tier: data.tier,
         status: data.status,
+        currentPeriodStart: data.currentPeriodStart,
         currentPeriodEnd: data.currentPeriodEnd,
+        pastDueSince: pastDueSinceFor(data.status, now),
+        ...(data.stripeEventAt !== undefined
+          ? { stripeEventAt: data.stripeEventAt }
+          : {}),
         updatedAt: now,
       })
-      .where(eq(subscriptions.userId, userId));
-  } else {
-    await db.insert(subscriptions).values({
-      userId,
-      stripeCustomerId: data.stripeCustomerId,
-      stripeSubscriptionId: data.stripeSubscriptionId,
-      tier: data.tier,
-      status: data.status,
-      currentPeriodEnd: data.currentPeriodEnd,
-      createdAt: now,
-      updatedAt: now,
-    });
+      .where(
+        and(eq(subscriptions.userId, userId), appliesEvent(data.stripeEventAt))
+      )
+      .returning({ id: subscriptions.id });
+    return updated.length > 0;
   }
+
+  await db.insert(subscriptions).values({
+    userId,
+    stripeCustomerId: data.stripeCustomerId,
+    stripeSubscriptionId: data.stripeSubscriptionId,
+    tier: data.tier,
+    status: data.status,
+    currentPeriodStart: data.currentPeriodStart,
+    currentPeriodEnd: data.currentPeriodEnd,
+    pastDueSince: data.status === "past_due" ? now : null,
+    stripeEventAt: data.stripeEventAt ?? null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return true;
 }
 
+/**
+ * Updates the row for a Stripe subscription. Returns false if there is none,
+ * it reflects a newer Stripe event than `updates.stripeEventAt`, or its
+ * status isn't one of `updates.fromStatuses`.
+ */
 export async function updateSubscriptionStatus(
   stripeSubscriptionId: string,
   status: SubscriptionStatus,
-  updates?: { tier?: SubscriptionTier; currentPeriodEnd?: string }
-) {
+  updates?: {
+    tier?: SubscriptionTier;
+    currentPeriodStart?: string;
+    currentPeriodEnd?: string;
+    stripeEventAt?: number;
+    fromStatuses?: SubscriptionStatus[];
+  }
+): Promise<boolean> {
   const now = new Date().toISOString();
 
-  await db
+  const updated = await db
     .update(subscriptions)
     .set({
       status,
+      pastDueSince: pastDueSinceFor(status, now),
       ...(updates?.tier ? { tier: updates.tier } : {}),
+      ...(updates?.currentPeriodStart
+        ? { currentPeriodStart: updates.currentPeriodStart }
+        : {}),
       ...(updates?.currentPeriodEnd
         ? { currentPeriodEnd: updates.currentPeriodEnd }
         : {}),
+      ...(updates?.stripeEventAt !== undefined
+        ? { stripeEventAt: updates.stripeEventAt }
+        : {}),
       updatedAt: now,
     })
-    .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    .where(
+      and(
+        eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId),
+        appliesEvent(updates?.stripeEventAt),
+        updates?.fromStatuses
+          ? inArray(subscriptions.status, updates.fromStatuses)
+          : undefined
+      )
+    )
+    .returning({ id: subscriptions.id });
+  return updated.length > 0;
+}
+
+/**
+ * The user's subscription once it has been canceled or has expired, which
+ * can still run until the end of the period it was paid for.
+ */
+export async function getEndedSubscription(userId: string) {
+  const sub = await db.query.subscriptions.findFirst({
+    where: and(
+      eq(subscriptions.userId, userId),
+      inArray(subscriptions.status, ["canceled", "expired"])
+    ),
+  });
+  return sub ?? null;
+}
+
+export async function getSubscriptionByCustomerId(stripeCustomerId: string) {
+  const sub = await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.stripeCustomerId, stripeCustomerId),
+  });
+  return sub ?? null;
+}
+
+/**
+ * Moves the row for a Stripe subscription to another tier right away, for a
+ * change made through the API at `stripeEventAt` (unix seconds). Events Stripe
+ * created before then describe the old tier and can no longer bring it back.
+ */
+export async function updateSubscriptionTier(
+  stripeSubscriptionId: string,
+  tier: SubscriptionTier,
+  stripeEventAt: number
+) {
+  await db
+    .update(subscriptions)
+    .set({ tier, stripeEventAt, updatedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId),
+        appliesEvent(stripeEventAt)
+      )
+    );
 }
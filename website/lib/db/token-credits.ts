@@ -0,0 +1,103 @@
+import { db } from "@/lib/db";
+import { tokenCredits, tokenCreditPurchases, tokenUsage } from "@/lib/db/schema";
+import { eq, and, sql } from "drizzle-orm";
+
+export async function getCreditBalance(userId: string): Promise<number> {
+  const credits = await db.query.tokenCredits.findFirst({
+    where: eq(tokenCredits.userId, userId),
+  });
+
+  if (!credits) return 0;
+  return Math.max(0, credits.purchasedTokens - credits.consumedTokens);
+}
+
+/**
+ * Records a paid token pack and credits it to the user. Safe to call more than
+ * once for the same checkout session: the purchase is deduplicated on the
+ * session id and the balance is recomputed from the purchase rows.
+ *
+ * Returns false when the session had already been credited.
+ */
+export async function recordTokenPackPurchase(data: {
+  userId: string;
+  stripeCheckoutSessionId: string;
+  pack: string;
+  tokens: number;
+}): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const [inserted] = await db.batch([
+    db
+      .insert(tokenCreditPurchases)
+      .values({ ...data, createdAt: now })
+      .onConflictDoNothing({ target: tokenCreditPurchases.stripeCheckoutSessionId })
+      .returning({ id: tokenCreditPurchases.id }),
+    db
+      .insert(tokenCredits)
+      .values({
+        userId: data.userId,
+        purchasedTokens: data.tokens,
+        consumedTokens: 0,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: tokenCredits.userId,
+        set: {
+          purchasedTokens: sql`(
+            SELECT coalesce(sum(${tokenCreditPurchases.tokens}), 0)
+            FROM ${tokenCreditPurchases}
+            WHERE ${tokenCreditPurchases.userId} = ${data.userId}
+          )`,
+          updatedAt: now,
+        },
+      }),
+  ]);
+
+  return inserted.length > 0;
+}
+
+/**
+ * Statements that move a period's usage beyond the tier limit onto the user's
+ * purchased credits, to run in the same batch as the usage upsert. The draw is
+ * capped by the remaining balance, and consumed_tokens is recomputed from
+ * every period's credit_tokens so the two can never disagree.
+ */
+export function buildCreditDraw(
+  userId: string,
+  periodStart: string,
+  tokenLimit: number
+) {
+  const now = new Date().toISOString();
+
+  return [
+    db
+      .update(tokenUsage)
+      .set({
+        creditTokens: sql`${tokenUsage.creditTokens} + max(0, min(
+          ${tokenUsage.totalTokens} - ${tokenLimit} - ${tokenUsage.creditTokens},
+          coalesce((
+            SELECT ${tokenCredits.purchasedTokens} - ${tokenCredits.consumedTokens}
+            FROM ${tokenCredits}
+            WHERE ${tokenCredits.userId} = ${userId}
+          ), 0)
+        ))`,
+      })
+      .where(
+        and(
+          eq(tokenUsage.userId, userId),
+          eq(tokenUsage.periodStart, periodStart)
+        )
+      ),
+    db
+      .update(tokenCredits)
+      .set({
+        consumedTokens: sql`(
+          SELECT coalesce(sum(${tokenUsage.creditTokens}), 0)
+          FROM ${tokenUsage}
+          WHERE ${tokenUsage.userId} = ${userId}
+        )`,
+        updatedAt: now,
+      })
+      .where(eq(tokenCredits.userId, userId)),
+  ] as const;
+}
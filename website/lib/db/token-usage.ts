@@ -1,58 +1,169 @@
 import { db } from "@/lib/db";
-import { tokenUsage } from "@/lib/db/schema";
-import { eq, and, sql } from "drizzle-orm";
-
-export function getCurrentPeriod(): string {
-  const now = new Date();
-  const year = now.getUTCFullYear();
-  const month = String(now.getUTCMonth() + 1).padStart(2, "0");
-  return `${year}-${month}`;
+import { tokenUsage, tokenReservations } from "@/lib/db/schema";
+import { eq, and, gt, lte, desc, sql } from "drizzle-orm";
+import { getActiveSubscription } from "@/lib/db/subscription-repo";
+import { buildCreditDraw, getCreditBalance } from "@/lib/db/token-credits";
+import { notifyQuotaThresholds } from "@/lib/quota-warnings";
+
+// A reservation that outlives this is assumed abandoned and no longer counts
+// against the quota. Streams renew theirs while they run, so the TTL only has
+// to cover the gap between renewals.
+const RESERVATION_TTL_MS = 5 * 60_000;
+export const RESERVATION_RENEW_INTERVAL_MS = 60_000;
+const MAX_RESERVE_ATTEMPTS = 3;
+
+export interface TokenReservation {
+  id: string;
+  userId: string;
+  period: UsagePeriod;
+  tokens: number;
+  /** Tier limit at reservation time; usage beyond it is drawn from credits */
+  tokenLimit: number;
 }
 
-export async function getUsage(userId: string) {
-  const period = getCurrentPeriod();
+export interface UsagePeriod {
+  /** Inclusive ISO timestamp */
+  start: string;
+  /** Exclusive ISO timestamp; quota resets at this instant */
+  end: string;
+}
 
-  const existing = await db.query.tokenUsage.findFirst({
+// Adds calendar months, clamping to the end of shorter months the way Stripe
+// does (Jan 31 + 1 month = Feb 28/29).
+function addUTCMonths(date: Date, months: number): Date {
+  const day = date.getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
+
+export function getCalendarPeriod(now = new Date()): UsagePeriod {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    start: start.toISOString(),
+    end: addUTCMonths(start, 1).toISOString(),
+  };
+}
+
+/**
+ * The monthly usage window of a billing cycle that contains `now`. Monthly
+ * plans get exactly their billing period; yearly plans get monthly windows
+ * anchored on the cycle's start day; a cycle shorter than a month (a trial)
+ * ends the window early.
+ */
+export function getBillingPeriod(
+  cycleStart: string,
+  cycleEnd: string | null,
+  now = new Date()
+): UsagePeriod {
+  const anchor = new Date(cycleStart);
+  let months =
+    (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (now.getUTCMonth() - anchor.getUTCMonth());
+  if (addUTCMonths(anchor, months) > now) months -= 1;
+
+  const start = addUTCMonths(anchor, months);
+  let end = addUTCMonths(anchor, months + 1);
+
+  if (cycleEnd) {
+    const cycleEndDate = new Date(cycleEnd);
+    if (cycleEndDate > now && cycleEndDate < end) end = cycleEndDate;
+  }
+
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/**
+ * Resolves the usage window a request made now is charged to. A window that
+ * is already open keeps running until it ends, so plan changes and migrated
+ * calendar-month rows never reset quota mid-window; a new window never starts
+ * before the previous one ended.
+ */
+export async function getCurrentPeriod(
+  userId: string,
+  now = new Date()
+): Promise<UsagePeriod> {
+  const nowIso = now.toISOString();
+
+  const open = await db.query.tokenUsage.findFirst({
+    where: and(
+      eq(tokenUsage.userId, userId),
+      lte(tokenUsage.periodStart, nowIso),
+      gt(tokenUsage.periodEnd, nowIso)
+    ),
+    orderBy: desc(tokenUsage.periodStart),
+  });
+
+  if (open?.periodEnd) {
+    return { start: open.periodStart, end: open.periodEnd };
+  }
+
+  const subscription = await getActiveSubscription(userId);
+  const period = subscription?.currentPeriodStart
+    ? getBillingPeriod(
+        subscription.currentPeriodStart,
+        subscription.currentPeriodEnd,
+        now
+      )
+    : getCalendarPeriod(now);
+
+  const previous = await db.query.tokenUsage.findFirst({
     where: and(
       eq(tokenUsage.userId, userId),
-      eq(tokenUsage.periodStart, period)
+      gt(tokenUsage.periodEnd, period.start)
     ),
+    orderBy: desc(tokenUsage.periodEnd),
   });
 
-  if (!existing) {
-    return {
-      promptTokens: 0,
-      completionTokens: 0,
-      totalTokens: 0,
-      requestCount: 0,
-      period,
-    };
+  if (previous?.periodEnd && previous.periodEnd <= nowIso) {
+    period.start = previous.periodEnd;
   }
 
+  return period;
+}
+
+export async function getUsage(userId: string, period?: UsagePeriod) {
+  const { start, end } = period ?? (await getCurrentPeriod(userId));
+
+  const existing = await db.query.tokenUsage.findFirst({
+    where: and(
+      eq(tokenUsage.userId, userId),
+      eq(tokenUsage.periodStart, start)
+    ),
+  });
+
   return {
-    promptTokens: existing.promptTokens,
-    completionTokens: existing.completionTokens,
-    totalTokens: existing.totalTokens,
-    requestCount: existing.requestCount,
-    period,
+    promptTokens: existing?.promptTokens ?? 0,
+    completionTokens: existing?.completionTokens ?? 0,
+    totalTokens: existing?.totalTokens ?? 0,
+    requestCount: existing?.requestCount ?? 0,
+    creditTokens: existing?.creditTokens ?? 0,
+    period: start,
+    periodEnd: end,
   };
 }
 
-export async function recordUsage(
+function buildUsageUpsert(
   userId: string,
+  period: UsagePeriod,
   promptTokens: number,
   completionTokens: number
 ) {
-  const period = getCurrentPeriod();
   const total = promptTokens + completionTokens;
   const now = new Date().toISOString();
 
   // Atomic upsert: INSERT ... ON CONFLICT ... DO UPDATE
-  await db
+  return db
     .insert(tokenUsage)
     .values({
       userId,
-      periodStart: period,
+      periodStart: period.start,
+      periodEnd: period.end,
       promptTokens,
       completionTokens,
       totalTokens: total,
@@ -71,3 +182,169 @@ export async function recordUsage(
       },
     });
 }
+
+export async function recordUsage(
+  userId: string,
+  promptTokens: number,
+  completionTokens: number
+) {
+  await buildUsageUpsert(
+    userId,
+    await getCurrentPeriod(userId),
+    promptTokens,
+    completionTokens
+  );
+}
+
+async function getReservedTokens(userId: string, period: string) {
+  const [row] = await db
+    .select({ reserved: sql<number>`coalesce(sum(${tokenReservations.tokens}), 0)` })
+    .from(tokenReservations)
+    .where(
+      and(
+        eq(tokenReservations.userId, userId),
+        eq(tokenReservations.periodStart, period),
+        gt(tokenReservations.expiresAt, new Date().toISOString())
+      )
+    );
+
+  return Number(row?.reserved ?? 0);
+}
+
+/**
+ * Holds up to `requested` tokens of the user's remaining quota — the tier
+ * limit plus any purchased credits — for an in-flight request. Grants less
+ * than requested when the quota is nearly spent, and returns null when fewer
+ * than `minimum` tokens are available.
+ *
+ * The insert only succeeds if usage plus every live reservation still fits in
+ * the limit when SQLite executes it, so concurrent requests cannot jointly
+ * overshoot; a lost race is retried against fresh numbers.
+ */
+export async function reserveTokens(
+  userId: string,
+  tokenLimit: number,
+  requested: number,
+  minimum: number
+): Promise<TokenReservation | null> {
+  const period = await getCurrentPeriod(userId);
+
+  await db
+    .delete(tokenReservations)
+    .where(
+      and(
+        eq(tokenReservations.userId, userId),
+        lte(tokenReservations.expiresAt, new Date().toISOString())
+      )
+    );
+
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const usage = await getUsage(userId, period);
+    const reserved = await getReservedTokens(userId, period.start);
+    // Credits already drawn this period are part of totalTokens, so they
+    // extend the limit alongside the remaining balance.
+    const effectiveLimit =
+      tokenLimit + usage.creditTokens + (await getCreditBalance(userId));
+    const available = effectiveLimit - usage.totalTokens - reserved;
+    const tokens = Math.min(requested, available);
+
+    if (tokens < minimum) return null;
+
+    const id = crypto.randomUUID();
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MS).toISOString();
+
+    const result = await db.run(sql`
+      INSERT INTO ${tokenReservations} (id, user_id, period_start, tokens, expires_at, created_at)
+      SELECT ${id}, ${userId}, ${period.start}, ${tokens}, ${expiresAt}, ${nowIso}
+      WHERE coalesce((
+          SELECT ${tokenUsage.totalTokens} FROM ${tokenUsage}
+          WHERE ${tokenUsage.userId} = ${userId} AND ${tokenUsage.periodStart} = ${period.start}
+        ), 0)
+        + coalesce((
+          SELECT sum(${tokenReservations.tokens}) FROM ${tokenReservations}
+          WHERE ${tokenReservations.userId} = ${userId}
+            AND ${tokenReservations.periodStart} = ${period.start}
+            AND ${tokenReservations.expiresAt} > ${nowIso}
+        ), 0)
+        + ${tokens} <= ${effectiveLimit}
+    `);
+
+    if (result.rowsAffected > 0) {
+      return { id, userId, period, tokens, tokenLimit };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Replaces a reservation with the request's actual usage, charged to the period
+ * the reservation was made in, drawing anything past the tier limit from
+ * purchased credits. Passing zero usage simply releases it.
+ * Sends a notification for any quota warning threshold the charge crosses.
+ */
+export async function settleReservation(
+  reservation: TokenReservation,
+  promptTokens: number,
+  completionTokens: number
+) {
+  const release = db
+    .delete(tokenReservations)
+    .where(eq(tokenReservations.id, reservation.id));
+
+  if (promptTokens <= 0 && completionTokens <= 0) {
+    await release;
+    return;
+  }
+
+  await db.batch([
+    release,
+    buildUsageUpsert(
+      reservation.userId,
+      reservation.period,
+      promptTokens,
+      completionTokens
+    ),
+    ...buildCreditDraw(
+      reservation.userId,
+      reservation.period.start,
+      reservation.tokenLimit
+    ),
+  ]);
+
+  await checkQuotaThresholds(reservation);
+}
+
+async function checkQuotaThresholds(reservation: TokenReservation) {
+  try {
+    const usage = await getUsage(reservation.userId, reservation.period);
+    await notifyQuotaThresholds(
+      reservation.userId,
+      reservation.period,
+      usage.totalTokens - usage.creditTokens,
+      reservation.tokenLimit
+    );
+  } catch (err) {
+    // A missed warning must not fail the request that was already charged
+    console.error("Failed to send quota notification:", err);
+  }
+}
+
+/**
+ * Pushes a live reservation's expiry a full TTL past now, for a request still
+ * generating tokens when the original expiry approaches.
+ */
+export async function extendReservation(reservation: TokenReservation) {
+  await db
+    .update(tokenReservations)
+    .set({
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS).toISOString(),
+    })
+    .where(eq(tokenReservations.id, reservation.id));
+}
+
+export async function releaseReservation(reservation: TokenReservation) {
+  await settleReservation(reservation, 0, 0);
+}
@@ -0,0 +1,127 @@
+import { db } from "@/lib/db";
+import { usageEvents } from "@/lib/db/schema";
+import { eq, and, gte, lt, desc, sql } from "drizzle-orm";
+
+export type UsageEventStatus = "completed" | "aborted" | "failed";
+
+export interface UsageEventInput {
+  userId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  streaming: boolean;
+  status: UsageEventStatus;
+  clientVersion: string | null;
+}
+
+export interface UsageHistoryRange {
+  /** Inclusive start, "YYYY-MM-DD" (UTC) */
+  from: string;
+  /** Inclusive end, "YYYY-MM-DD" (UTC) */
+  to: string;
+  limit: number;
+  cursor?: string | null;
+}
+
+export async function recordUsageEvent(event: UsageEventInput) {
+  await db.insert(usageEvents).values({
+    userId: event.userId,
+    model: event.model,
+    promptTokens: event.promptTokens,
+    completionTokens: event.completionTokens,
+    totalTokens: event.promptTokens + event.completionTokens,
+    latencyMs: event.latencyMs,
+    streaming: event.streaming,
+    status: event.status,
+    clientVersion: event.clientVersion,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function rangeConditions(userId: string, range: UsageHistoryRange) {
+  // created_at is stored as an ISO timestamp, so string comparison on the
+  // date prefix selects whole UTC days.
+  return [
+    eq(usageEvents.userId, userId),
+    gte(usageEvents.createdAt, range.from),
+    lt(usageEvents.createdAt, nextDay(range.to)),
+  ];
+}
+
+/**
+ * Newest-first page of individual requests. The cursor is the id of the last
+ * event on the previous page.
+ */
+export async function getUsageEvents(userId: string, range: UsageHistoryRange) {
+  const cursorId = range.cursor ? Number(range.cursor) : null;
+
+  const rows = await db
+    .select()
+    .from(usageEvents)
+    .where(
+      and(
+        ...rangeConditions(userId, range),
+        ...(cursorId !== null && Number.isInteger(cursorId)
+          ? [lt(usageEvents.id, cursorId)]
+          : [])
+      )
+    )
+    .orderBy(desc(usageEvents.id))
+    .limit(range.limit + 1);
+
+  const hasMore = rows.length > range.limit;
+  const page = rows.slice(0, range.limit);
+
+  return {
+    events: page,
+    nextCursor: hasMore ? String(page[page.length - 1].id) : null,
+  };
+}
+
+/**
+ * Newest-first page of per-day totals. The cursor is the last date on the
+ * previous page.
+ */
+export async function getDailyUsage(userId: string, range: UsageHistoryRange) {
+  const day = sql<string>`substr(${usageEvents.createdAt}, 1, 10)`;
+
+  const rows = await db
+    .select({
+      date: day,
+      requestCount: sql<number>`count(*)`,
+      promptTokens: sql<number>`sum(${usageEvents.promptTokens})`,
+      completionTokens: sql<number>`sum(${usageEvents.completionTokens})`,
+      totalTokens: sql<number>`sum(${usageEvents.totalTokens})`,
+    })
+    .from(usageEvents)
+    .where(
+      and(
+        ...rangeConditions(userId, range),
+        ...(range.cursor ? [lt(usageEvents.createdAt, range.cursor)] : [])
+      )
+    )
+    .groupBy(day)
+    .orderBy(desc(day))
+    .limit(range.limit + 1);
+
+  const hasMore = rows.length > range.limit;
+  const page = rows.slice(0, range.limit).map((row) => ({
+    date: row.date,
+    requestCount: Number(row.requestCount),
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    totalTokens: Number(row.totalTokens),
+  }));
+
+  return {
+    days: page,
+    nextCursor: hasMore ? page[page.length - 1].date : null,
+  };
+}
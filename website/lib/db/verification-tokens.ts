@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { verificationTokens } from "@/lib/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+// Purposes share the Auth.js verification_token table, namespaced by prefixing
+// the identifier (e.g. "verify-email:user@example.com"). Email change tokens
+// are keyed by user ID instead, since the address is what's changing.
+const VERIFICATION_PURPOSES = [
+  "verify-email",
+  "reset-password",
+  "change-email",
+] as const;
+
+export type VerificationPurpose = (typeof VERIFICATION_PURPOSES)[number];
+
+function identifierFor(purpose: VerificationPurpose, email: string): string {
+  return `${purpose}:${email.toLowerCase()}`;
+}
+
+// Only a hash is stored, so a leaked table can't be used to redeem tokens.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issues a single-use token for `email`, replacing any outstanding token for
+ * the same purpose. Returns the raw token to send to the user.
+ */
+export async function createVerificationToken(
+  purpose: VerificationPurpose,
+  email: string,
+  ttlMs: number
+): Promise<string> {
+  const identifier = identifierFor(purpose, email);
+  const token = randomBytes(32).toString("base64url");
+
+  await db.batch([
+    db
+      .delete(verificationTokens)
+      .where(eq(verificationTokens.identifier, identifier)),
+    db.insert(verificationTokens).values({
+      identifier,
+      token: hashToken(token),
+      expires: new Date(Date.now() + ttlMs),
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Redeems a token. Returns false if it doesn't exist, was already used or has
+ * expired; expired tokens are deleted either way.
+ */
+export async function consumeVerificationToken(
+  purpose: VerificationPurpose,
+  email: string,
+  token: string
+): Promise<boolean> {
+  const [row] = await db
+    .delete(verificationTokens)
+    .where(
+      and(
+        eq(verificationTokens.identifier, identifierFor(purpose, email)),
+        eq(verificationTokens.token, hashToken(token))
+      )
+    )
+    .returning();
+
+  return !!row && row.expires.getTime() > Date.now();
+}
+
+/**
+ * Deletes every outstanding token issued for `email` (or, for email change
+ * tokens, a user ID), whatever its purpose.
+ */
+export function deleteVerificationTokensFor(email: string) {
+  return db
+    .delete(verificationTokens)
+    .where(
+      inArray(
+        verificationTokens.identifier,
+        VERIFICATION_PURPOSES.map((purpose) => identifierFor(purpose, email))
+      )
+    );
+}
@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+import { authUsers, subscriptions } from "@/lib/db/schema";
+import { eq, and, gt } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import { getTierTokenLimit, type SubscriptionTier } from "@/lib/tiers";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// Reminders go out when this many days of the grace period are left
+const REMINDER_DAYS_LEFT = [3, 1];
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Days a past_due subscription keeps access after its first failed payment,
+ * from PAST_DUE_GRACE_DAYS (default 7). 0 locks it out straight away.
+ */
+export function getGracePeriodDays(): number {
+  return envNumber("PAST_DUE_GRACE_DAYS", 7);
+}
+
+export function getGraceUntil(pastDueSince: string): Date {
+  return new Date(new Date(pastDueSince).getTime() + getGracePeriodDays() * DAY_MS);
+}
+
+/** Subscriptions that went past_due before this are out of their grace period. */
+export function getGraceCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - getGracePeriodDays() * DAY_MS);
+}
+
+/**
+ * The monthly token limit for a subscription. During the grace period it is
+ * cut to PAST_DUE_QUOTA_PERCENT (default 25) of the tier's.
+ */
+export function getSubscriptionTokenLimit(subscription: {
+  tier: SubscriptionTier;
+  graceUntil: string | null;
+}): number {
+  const limit = getTierTokenLimit(subscription.tier);
+  if (!subscription.graceUntil) return limit;
+
+  const percent = Math.min(envNumber("PAST_DUE_QUOTA_PERCENT", 25), 100);
+  return Math.floor((limit * percent) / 100);
+}
+
+/**
+ * Reminds users in the grace period to fix their payment method. Meant to run
+ * daily; each reminder is sent at most once per failed payment.
+ */
+export async function sendGraceReminders(now = new Date()) {
+  const inGrace = await db
+    .select({
+      id: subscriptions.id,
+      tier: subscriptions.tier,
+      pastDueSince: subscriptions.pastDueSince,
+      email: authUsers.email,
+    })
+    .from(subscriptions)
+    .innerJoin(authUsers, eq(authUsers.id, subscriptions.userId))
+    .where(
+      and(
+        eq(subscriptions.status, "past_due"),
+        gt(subscriptions.pastDueSince, getGraceCutoff(now).toISOString())
+      )
+    );
+
+  let remindersDue = 0;
+  for (const subscription of inGrace) {
+    if (!subscription.pastDueSince) continue;
+
+    const graceUntil = getGraceUntil(subscription.pastDueSince);
+    const daysLeft = Math.ceil((graceUntil.getTime() - now.getTime()) / DAY_MS);
+    if (!REMINDER_DAYS_LEFT.includes(daysLeft)) continue;
+
+    try {
+      await sendEmail(
+        subscription.email,
+        "payment_grace_reminder",
+        {
+          graceUntil: graceUntil.toISOString(),
+          tokenLimit: getSubscriptionTokenLimit({
+            tier: subscription.tier,
+            graceUntil: graceUntil.toISOString(),
+          }),
+        },
+        {
+          dedupeKey: `payment_grace_reminder:${subscription.id}:${subscription.pastDueSince}:${daysLeft}`,
+        }
+      );
+      remindersDue += 1;
+    } catch (error) {
+      console.error(`Grace reminder for subscription ${subscription.id} failed:`, error);
+    }
+  }
+
+  return { pastDue: inGrace.length, remindersDue };
+}
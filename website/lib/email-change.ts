@@ -0,0 +1,131 @@
+import { db } from "@/lib/db";
+import { authUsers, subscriptions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import { updateAccountEmail } from "@/lib/account";
+import { getCustomerByEmail, updateCustomerEmail } from "@/lib/stripe";
+import {
+  consumeVerificationToken,
+  createVerificationToken,
+  deleteVerificationTokensFor,
+} from "@/lib/db/verification-tokens";
+
+const EMAIL_CHANGE_TTL_MS = 24 * 60 * 60_000;
+
+export type EmailChangeResult =
+  | { status: "changed"; user: { id: string; email: string; name: string | null } }
+  | { status: "invalid" }
+  | { status: "email_in_use" };
+
+async function isEmailTaken(email: string, userId: string): Promise<boolean> {
+  const owner = await db.query.authUsers.findFirst({
+    where: eq(authUsers.email, email),
+    columns: { id: true },
+  });
+  return !!owner && owner.id !== userId;
+}
+
+async function findStripeCustomerId(user: { id: string; email: string }) {
+  const subscription = await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.userId, user.id),
+    columns: { stripeCustomerId: true },
+  });
+  if (subscription?.stripeCustomerId) return subscription.stripeCustomerId;
+
+  const customer = await getCustomerByEmail(user.email);
+  return customer?.id ?? null;
+}
+
+/**
+ * Records the address the user wants to switch to and sends a confirmation
+ * link to it. Nothing else changes until the link is followed.
+ */
+export async function requestEmailChange(
+  user: { id: string; name: string | null },
+  newEmail: string
+): Promise<"requested" | "email_in_use"> {
+  if (await isEmailTaken(newEmail, user.id)) return "email_in_use";
+
+  await db
+    .update(authUsers)
+    .set({ pendingEmail: newEmail })
+    .where(eq(authUsers.id, user.id));
+
+  const token = await createVerificationToken(
+    "change-email",
+    user.id,
+    EMAIL_CHANGE_TTL_MS
+  );
+  const params = new URLSearchParams({ user: user.id, token });
+
+  await sendEmail(newEmail, "confirm_email_change", {
+    name: user.name,
+    confirmUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/account/email/confirm?${params}`,
+  });
+
+  return "requested";
+}
+
+export async function cancelEmailChange(userId: string) {
+  await db.batch([
+    db
+      .update(authUsers)
+      .set({ pendingEmail: null })
+      .where(eq(authUsers.id, userId)),
+    deleteVerificationTokensFor(userId),
+  ]);
+}
+
+/**
+ * Switches the account to its pending address from a confirmation link. The
+ * Stripe customer is updated first and put back if the local update fails, so
+ * the two never disagree about the address. The old address is told about
+ * the change.
+ */
+export async function confirmEmailChange(
+  userId: string,
+  token: string
+): Promise<EmailChangeResult> {
+  if (!(await consumeVerificationToken("change-email", userId, token))) {
+    return { status: "invalid" };
+  }
+
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+  });
+  if (!user?.pendingEmail) return { status: "invalid" };
+
+  const newEmail = user.pendingEmail;
+  if (await isEmailTaken(newEmail, user.id)) {
+    await db
+      .update(authUsers)
+      .set({ pendingEmail: null })
+      .where(eq(authUsers.id, user.id));
+    return { status: "email_in_use" };
+  }
+
+  const customerId = await findStripeCustomerId(user);
+  if (customerId) {
+    await updateCustomerEmail(customerId, newEmail);
+  }
+
+  try {
+    await updateAccountEmail(user, newEmail);
+  } catch (error) {
+    if (customerId) {
+      await updateCustomerEmail(customerId, user.email).catch((err) =>
+        console.error(`Failed to restore Stripe customer ${customerId} email:`, err)
+      );
+    }
+    // Another account took the address between the check and the update
+    if (await isEmailTaken(newEmail, user.id)) return { status: "email_in_use" };
+    throw error;
+  }
+
+  await sendEmail(user.email, "email_changed", {
+    name: user.name,
+    newEmail,
+  }).catch((err) => console.error("Failed to queue email changed email:", err));
+
+  return { status: "changed", user: { id: user.id, email: newEmail, name: user.name } };
+}
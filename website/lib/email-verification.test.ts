@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { markVerifiedByProvider } from "@/lib/email-verification";
+
+const USER = { id: "user-oauth", email: "oauth@example.com" };
+
+// An ID token as the provider hands it back; only the claims are read
+function idToken(claims: Record<string, unknown>) {
+  const part = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${part({ alg: "RS256" })}.${part(claims)}.signature`;
+}
+
+async function emailVerified() {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, USER.id),
+  });
+  return user!.emailVerified;
+}
+
+beforeEach(async () => {
+  await db.delete(authUsers);
+  await db.insert(authUsers).values(USER);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("markVerifiedByProvider", () => {
+  it("verifies an address the provider has verified", async () => {
+    const account = {
+      provider: "google",
+      id_token: idToken({ email: "OAuth@example.com", email_verified: true }),
+    };
+
+    await markVerifiedByProvider(USER, account, { email: "OAuth@example.com" });
+
+    expect(await emailVerified()).toBeInstanceOf(Date);
+  });
+
+  it("leaves the account unverified when the provider signed in with another address", async () => {
+    const account = {
+      provider: "google",
+      id_token: idToken({ email: "someone-else@example.com", email_verified: true }),
+    };
+
+    await markVerifiedByProvider(USER, account, { email: "someone-else@example.com" });
+
+    expect(await emailVerified()).toBeNull();
+  });
+
+  it("leaves the account unverified when the provider has not verified the address", async () => {
+    const account = {
+      provider: "apple",
+      id_token: idToken({ email: USER.email, email_verified: "false" }),
+    };
+
+    await markVerifiedByProvider(USER, account, { email: USER.email });
+
+    expect(await emailVerified()).toBeNull();
+  });
+
+  it("checks GitHub's verification flag for the address", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        Response.json([{ email: USER.email, primary: true, verified: false }])
+      );
+
+    await markVerifiedByProvider(
+      USER,
+      { provider: "github", access_token: "gho_test" },
+      { email: USER.email }
+    );
+    expect(await emailVerified()).toBeNull();
+
+    fetchMock.mockResolvedValue(
+      Response.json([{ email: USER.email, primary: true, verified: true }])
+    );
+    await markVerifiedByProvider(
+      USER,
+      { provider: "github", access_token: "gho_test" },
+      { email: USER.email }
+    );
+    expect(await emailVerified()).toBeInstanceOf(Date);
+  });
+});
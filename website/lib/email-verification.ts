@@ -0,0 +1,127 @@
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import {
+  consumeVerificationToken,
+  createVerificationToken,
+} from "@/lib/db/verification-tokens";
+
+const VERIFICATION_TTL_MS = 24 * 60 * 60_000;
+
+export async function sendVerificationEmail(user: {
+  email: string;
+  name: string | null;
+}) {
+  const token = await createVerificationToken(
+    "verify-email",
+    user.email,
+    VERIFICATION_TTL_MS
+  );
+  const params = new URLSearchParams({ email: user.email, token });
+
+  await sendEmail(user.email, "verify_email", {
+    name: user.name,
+    verifyUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/verify?${params}`,
+  });
+}
+
+/**
+ * Confirms the address a verification link was sent to. Returns the verified
+ * user, or null if the link is invalid or expired.
+ */
+export async function verifyEmail(email: string, token: string) {
+  const normalizedEmail = email.toLowerCase().trim();
+  if (!(await consumeVerificationToken("verify-email", normalizedEmail, token))) {
+    return null;
+  }
+
+  const [user] = await db
+    .update(authUsers)
+    .set({ emailVerified: new Date() })
+    .where(eq(authUsers.email, normalizedEmail))
+    .returning();
+
+  return user ?? null;
+}
+
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+    columns: { emailVerified: true },
+  });
+  return !!user?.emailVerified;
+}
+
+type LinkedAccount = {
+  provider: string;
+  access_token?: string;
+  id_token?: string;
+};
+
+function sameAddress(a: string | null | undefined, b: string) {
+  return !!a && a.toLowerCase().trim() === b.toLowerCase().trim();
+}
+
+// Google and Apple state whether they verified the address in the ID token
+// they return from the code exchange, which came straight from the provider
+function idTokenVerifies(idToken: string, email: string) {
+  try {
+    const claims = JSON.parse(
+      Buffer.from(idToken.split(".")[1], "base64url").toString("utf8")
+    ) as { email?: string; email_verified?: boolean | string };
+    return (
+      sameAddress(claims.email, email) &&
+      (claims.email_verified === true || claims.email_verified === "true")
+    );
+  } catch {
+    return false;
+  }
+}
+
+// GitHub falls back to the primary address without checking it was verified,
+// so ask for the verification flag directly
+async function githubVerifies(accessToken: string, email: string) {
+  try {
+    const res = await fetch("https://api.github.com/user/emails", {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "User-Agent": "ezlander",
+      },
+    });
+    if (!res.ok) return false;
+    const emails = (await res.json()) as { email: string; verified: boolean }[];
+    return emails.some((entry) => entry.verified && sameAddress(entry.email, email));
+  } catch {
+    return false;
+  }
+}
+
+async function providerVerifies(account: LinkedAccount, email: string) {
+  if (account.provider === "github") {
+    return !!account.access_token && githubVerifies(account.access_token, email);
+  }
+  return !!account.id_token && idTokenVerifies(account.id_token, email);
+}
+
+/**
+ * Marks the account's address verified when an OAuth provider is linked,
+ * but only if the provider signed in with that same address and says it has
+ * verified it. Anything else leaves the verification state unchanged.
+ */
+export async function markVerifiedByProvider(
+  user: { id?: string; email?: string | null },
+  account: LinkedAccount,
+  profile: { email?: string | null }
+) {
+  if (!user.id || !user.email || !sameAddress(profile.email, user.email)) {
+    return false;
+  }
+  if (!(await providerVerifies(account, user.email))) return false;
+
+  await db
+    .update(authUsers)
+    .set({ emailVerified: new Date() })
+    .where(and(eq(authUsers.id, user.id), isNull(authUsers.emailVerified)));
+  return true;
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { emailOutbox } from "@/lib/db/schema";
+import {
+  createCaptureTransport,
+  processEmailOutbox,
+  sendEmail,
+  setMailTransport,
+  type MailTransport,
+} from "@/lib/email";
+
+const START = new Date("2026-03-01T12:00:00.000Z");
+
+let capture: ReturnType<typeof createCaptureTransport>;
+
+// Fails the first `failures` deliveries, then hands messages to `capture`
+function flakyTransport(failures: number): MailTransport {
+  let calls = 0;
+  return {
+    name: "flaky",
+    async send(message) {
+      calls += 1;
+      if (calls <= failures) throw new Error(`SMTP down (${calls})`);
+      await capture.send(message);
+    },
+  };
+}
+
+async function outboxRow(to: string) {
+  const [row] = await db
+    .select()
+    .from(emailOutbox)
+    .where(eq(emailOutbox.to, to));
+  return row;
+}
+
+function advance(ms: number) {
+  vi.setSystemTime(new Date(Date.now() + ms));
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  await db.delete(emailOutbox);
+  capture = createCaptureTransport();
+  setMailTransport(capture);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("sendEmail", () => {
+  it("delivers right away and marks the message sent", async () => {
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" });
+
+    expect(capture.messages).toHaveLength(1);
+    expect(capture.messages[0]).toMatchObject({
+      to: "ada@example.com",
+      subject: "Welcome to ezLander",
+    });
+    expect(await outboxRow("ada@example.com")).toMatchObject({
+      status: "sent",
+      attempts: 0,
+      // The body may hold a single-use link, so it isn't kept once delivered
+      text: "",
+      html: null,
+    });
+  });
+
+  it("keeps messages queued in production until SMTP is configured", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("MAIL_TRANSPORT", "");
+    // A fresh copy of the mail modules, with no transport chosen yet
+    vi.resetModules();
+    const email = await import("@/lib/email");
+
+    try {
+      await email.sendEmail("ada@example.com", "welcome", { name: "Ada" });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(await outboxRow("ada@example.com")).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "MAIL_TRANSPORT=smtp is required in production",
+    });
+    expect((await outboxRow("ada@example.com")).text).toContain("Hi Ada,");
+  });
+
+  it("sends a message once per dedupe key", async () => {
+    const options = { dedupeKey: "welcome:user-1" };
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" }, options);
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" }, options);
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" });
+
+    expect(capture.messages).toHaveLength(2);
+    const rows = await db.select().from(emailOutbox);
+    expect(rows.map((row) => row.dedupeKey)).toEqual(["welcome:user-1", null]);
+  });
+
+  it("keeps a failed delivery queued instead of throwing", async () => {
+    setMailTransport(flakyTransport(1));
+
+    await expect(
+      sendEmail("ada@example.com", "welcome", { name: "Ada" })
+    ).resolves.toBeUndefined();
+
+    expect(await outboxRow("ada@example.com")).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "SMTP down (1)",
+      nextAttemptAt: new Date(START.getTime() + 60_000).toISOString(),
+    });
+  });
+});
+
+describe("processEmailOutbox", () => {
+  it("retries with exponential backoff until delivery succeeds", async () => {
+    setMailTransport(flakyTransport(3));
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" });
+
+    // Not due yet
+    expect(await processEmailOutbox()).toEqual({ processed: 0, sent: 0 });
+
+    advance(60_000);
+    expect(await processEmailOutbox()).toEqual({ processed: 1, sent: 0 });
+    let row = await outboxRow("ada@example.com");
+    expect(row.attempts).toBe(2);
+    expect(row.nextAttemptAt).toBe(new Date(Date.now() + 120_000).toISOString());
+
+    advance(119_000);
+    expect(await processEmailOutbox()).toEqual({ processed: 0, sent: 0 });
+
+    advance(1_000);
+    expect(await processEmailOutbox()).toEqual({ processed: 1, sent: 0 });
+    row = await outboxRow("ada@example.com");
+    expect(row.attempts).toBe(3);
+    expect(row.nextAttemptAt).toBe(new Date(Date.now() + 240_000).toISOString());
+
+    advance(240_000);
+    expect(await processEmailOutbox()).toEqual({ processed: 1, sent: 1 });
+    expect(capture.messages).toHaveLength(1);
+    expect(await outboxRow("ada@example.com")).toMatchObject({
+      status: "sent",
+      lastError: null,
+    });
+  });
+
+  it("gives up after the last attempt", async () => {
+    setMailTransport(flakyTransport(Infinity));
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" });
+
+    for (let attempt = 1; attempt < 6; attempt++) {
+      advance(60_000 * 2 ** (attempt - 1));
+      await processEmailOutbox();
+    }
+
+    expect(await outboxRow("ada@example.com")).toMatchObject({
+      status: "failed",
+      attempts: 6,
+      text: "",
+      html: null,
+    });
+
+    advance(24 * 60 * 60_000);
+    expect(await processEmailOutbox()).toEqual({ processed: 0, sent: 0 });
+  });
+
+  it("skips a message another worker has claimed", async () => {
+    setMailTransport(flakyTransport(1));
+    await sendEmail("ada@example.com", "welcome", { name: "Ada" });
+    advance(60_000);
+
+    // Both workers read the due message before either claims it
+    const slowTransport: MailTransport = {
+      name: "slow",
+      async send(message) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await capture.send(message);
+      },
+    };
+    setMailTransport(slowTransport);
+    const results = await Promise.all([
+      processEmailOutbox(),
+      processEmailOutbox(),
+    ]);
+
+    expect(results.map((result) => result.sent).sort()).toEqual([0, 1]);
+    expect(capture.messages).toHaveLength(1);
+  });
+});
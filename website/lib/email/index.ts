@@ -0,0 +1,81 @@
+import {
+  claimEmail,
+  enqueueEmail,
+  getDueEmails,
+  markEmailFailed,
+  markEmailSent,
+  type OutboxEmail,
+} from "@/lib/db/email-outbox";
+import {
+  renderEmail,
+  type EmailTemplate,
+  type EmailTemplateData,
+} from "@/lib/email/templates";
+import { deliverMail } from "@/lib/email/transports";
+
+export type { EmailTemplate, EmailTemplateData } from "@/lib/email/templates";
+export {
+  createCaptureTransport,
+  createFileTransport,
+  setMailTransport,
+  type MailMessage,
+  type MailTransport,
+} from "@/lib/email/transports";
+
+async function deliver(email: OutboxEmail): Promise<boolean> {
+  if (!(await claimEmail(email))) return false;
+
+  try {
+    await deliverMail({
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html ?? undefined,
+    });
+    await markEmailSent(email.id);
+    return true;
+  } catch (error) {
+    console.error(`Email ${email.id} (${email.template}) delivery failed:`, error);
+    await markEmailFailed(
+      email,
+      error instanceof Error ? error.message : String(error)
+    );
+    return false;
+  }
+}
+
+/**
+ * Renders a template into the outbox and attempts delivery right away. A
+ * failed delivery stays queued for processEmailOutbox to retry, so callers
+ * only see an error if the message could not be queued at all.
+ *
+ * Pass a `dedupeKey` for emails triggered by events that may be redelivered.
+ */
+export async function sendEmail<T extends EmailTemplate>(
+  to: string,
+  template: T,
+  data: EmailTemplateData<T>,
+  options: { dedupeKey?: string } = {}
+) {
+  const email = await enqueueEmail({
+    to,
+    template,
+    ...renderEmail(template, data),
+    dedupeKey: options.dedupeKey,
+  });
+  if (!email) return;
+
+  await deliver(email);
+}
+
+/** Retries queued emails whose next attempt is due. */
+export async function processEmailOutbox(limit = 50) {
+  const due = await getDueEmails(limit);
+  let sent = 0;
+
+  for (const email of due) {
+    if (await deliver(email)) sent += 1;
+  }
+
+  return { processed: due.length, sent };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { renderEmail } from "@/lib/email/templates";
+
+describe("renderEmail", () => {
+  it("escapes user-controlled text in the HTML body", () => {
+    const { html, text } = renderEmail("welcome", {
+      name: `<img src=x onerror="alert(1)"> & co`,
+    });
+
+    expect(html).toContain(
+      "Hi &lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; co,"
+    );
+    expect(html).not.toContain("<img");
+    // The plain-text body is not HTML, so it keeps the name as typed
+    expect(text).toContain(`Hi <img src=x onerror="alert(1)"> & co,`);
+  });
+
+  it("escapes the action URL inside its attribute", () => {
+    const { html } = renderEmail("verify_email", {
+      name: null,
+      verifyUrl: `https://ezlander.app/verify?token=a&next="><script>`,
+    });
+
+    expect(html).toContain(
+      'href="https://ezlander.app/verify?token=a&amp;next=&quot;&gt;&lt;script&gt;"'
+    );
+    expect(html).not.toContain("<script>");
+  });
+
+  it("renders the same paragraphs into both bodies", () => {
+    const { subject, html, text } = renderEmail("quota_warning", {
+      threshold: 80,
+      percentUsed: 83,
+      tokensUsed: 830_000,
+      tokenLimit: 1_000_000,
+      resetsAt: "2026-04-01T00:00:00.000Z",
+    });
+
+    const remaining =
+      "170,000 tokens remain until your quota resets on April 1, 2026.";
+    expect(subject).toMatch(/80%/);
+    expect(text).toContain(remaining);
+    expect(html).toContain(remaining);
+  });
+});
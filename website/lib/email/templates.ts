@@ -0,0 +1,256 @@
+import type { MailMessage } from "@/lib/email/transports";
+
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+function appUrl(pathname: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL ?? "https://ezlander.app"}${pathname}`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+function formatAmount(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+// Each template returns plain paragraphs and an optional call to action; the
+// text and HTML bodies are both rendered from them so they never disagree.
+const EMAIL_TEMPLATES = {
+  welcome: (data: { name: string | null }): EmailContent => ({
+    subject: "Welcome to ezLander",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "Thanks for creating an ezLander account. Download the app and sign in to connect your calendar and email.",
+    ],
+    action: { label: "Download ezLander", url: appUrl("/download") },
+  }),
+
+  verify_email: (data: { name: string | null; verifyUrl: string }): EmailContent => ({
+    subject: "Confirm your ezLander email address",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "Please confirm this is your email address to finish setting up your ezLander account. The link expires in 24 hours.",
+      "If you didn't create an account, you can ignore this email.",
+    ],
+    action: { label: "Confirm email", url: data.verifyUrl },
+  }),
+
+  reset_password: (data: { name: string | null; resetUrl: string }): EmailContent => ({
+    subject: "Reset your ezLander password",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "We received a request to reset your ezLander password. The link expires in 1 hour and can only be used once.",
+      "If you didn't ask for this, you can ignore this email; your password won't change.",
+    ],
+    action: { label: "Reset password", url: data.resetUrl },
+  }),
+
+  password_changed: (data: { name: string | null }): EmailContent => ({
+    subject: "Your ezLander password was changed",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "The password for your ezLander account was just changed.",
+      "If this wasn't you, reset your password right away and contact support@ezlander.app.",
+    ],
+    action: { label: "Reset password", url: appUrl("/forgot-password") },
+  }),
+
+  password_added: (data: { name: string | null }): EmailContent => ({
+    subject: "A password was added to your ezLander account",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "A password was just added to your ezLander account, so you can now also sign in with your email address and password.",
+      "If this wasn't you, reset your password right away and contact support@ezlander.app.",
+    ],
+    action: { label: "Reset password", url: appUrl("/forgot-password") },
+  }),
+
+  two_factor_enabled: (data: { name: string | null }): EmailContent => ({
+    subject: "Two-factor authentication is on for your ezLander account",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "Two-factor authentication was just turned on for your ezLander account. Signing in with your password now also needs a code from your authenticator app.",
+      "Keep your recovery codes somewhere safe. If this wasn't you, reset your password right away and contact support@ezlander.app.",
+    ],
+    action: { label: "Security settings", url: appUrl("/account/security") },
+  }),
+
+  two_factor_disabled: (data: { name: string | null }): EmailContent => ({
+    subject: "Two-factor authentication was turned off",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "Two-factor authentication was just turned off for your ezLander account.",
+      "If this wasn't you, reset your password right away and contact support@ezlander.app.",
+    ],
+    action: { label: "Security settings", url: appUrl("/account/security") },
+  }),
+
+  confirm_email_change: (data: {
+    name: string | null;
+    confirmUrl: string;
+  }): EmailContent => ({
+    subject: "Confirm your new ezLander email address",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      "Please confirm you want to use this address for your ezLander account. The link expires in 24 hours.",
+      "If you didn't ask for this, you can ignore this email; your account won't change.",
+    ],
+    action: { label: "Confirm new email", url: data.confirmUrl },
+  }),
+
+  email_changed: (data: { name: string | null; newEmail: string }): EmailContent => ({
+    subject: "Your ezLander email address was changed",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      `The email address for your ezLander account was just changed to ${data.newEmail}. You'll need to use it to sign in from now on.`,
+      "If this wasn't you, contact support@ezlander.app right away.",
+    ],
+  }),
+
+  account_deletion_scheduled: (data: {
+    name: string | null;
+    deleteAt: string;
+  }): EmailContent => ({
+    subject: "Your ezLander account will be deleted",
+    paragraphs: [
+      `Hi${data.name ? ` ${data.name}` : ""},`,
+      `We received your request to delete your ezLander account. It will be permanently deleted on ${formatDate(data.deleteAt)}, along with your usage history and settings. Your subscription won't renew, and the app has been signed out on all your devices.`,
+      "Changed your mind? Sign in and cancel the deletion before then. If you didn't ask for this, cancel it and reset your password right away.",
+    ],
+    action: { label: "Keep my account", url: appUrl("/account") },
+  }),
+
+  payment_failed: (data: {
+    amountDue: number;
+    currency: string;
+    nextAttemptAt: string | null;
+    invoiceUrl: string | null;
+  }): EmailContent => ({
+    subject: "Your ezLander payment failed",
+    paragraphs: [
+      `We couldn't charge your card for ${formatAmount(data.amountDue, data.currency)}.`,
+      data.nextAttemptAt
+        ? `We'll try again on ${formatDate(data.nextAttemptAt)}. Please update your payment method before then to keep your subscription active.`
+        : "Please update your payment method to keep your subscription active.",
+    ],
+    action: data.invoiceUrl
+      ? { label: "Pay invoice", url: data.invoiceUrl }
+      : { label: "Manage billing", url: appUrl("/download") },
+  }),
+
+  payment_grace_reminder: (data: {
+    graceUntil: string;
+    tokenLimit: number;
+  }): EmailContent => ({
+    subject: "Update your payment method to keep ezLander",
+    paragraphs: [
+      "We still haven't been able to charge your card for your ezLander subscription.",
+      `You can keep using ezLander with a reduced quota of ${formatTokens(data.tokenLimit)} AI tokens until ${formatDate(data.graceUntil)}. After that, access stops until the payment goes through.`,
+    ],
+    action: { label: "Manage billing", url: appUrl("/download") },
+  }),
+
+  trial_ending: (data: { tier: string; trialEndsAt: string }): EmailContent => ({
+    subject: "Your ezLander trial ends soon",
+    paragraphs: [
+      `Your ezLander ${data.tier} trial ends on ${formatDate(data.trialEndsAt)}.`,
+      "Your subscription will start automatically. If you'd rather not continue, you can cancel any time before then.",
+    ],
+    action: { label: "Manage subscription", url: appUrl("/download") },
+  }),
+
+  referral_reward: (data: {
+    rewardDays: number;
+    referralsCount: number;
+    referralCap: number;
+  }): EmailContent => ({
+    subject: `You earned ${data.rewardDays} free days of ezLander`,
+    paragraphs: [
+      `Someone you referred just subscribed, so we've added ${data.rewardDays} days of credit to your account.`,
+      `You've completed ${data.referralsCount} of ${data.referralCap} referrals.`,
+    ],
+  }),
+
+  quota_warning: (data: {
+    threshold: number;
+    percentUsed: number;
+    tokensUsed: number;
+    tokenLimit: number;
+    resetsAt: string;
+  }): EmailContent => ({
+    subject: `You've used ${data.threshold}% of your ezLander AI tokens`,
+    paragraphs: [
+      `You've used ${formatTokens(data.tokensUsed)} of your ${formatTokens(data.tokenLimit)} AI tokens this billing period (${data.percentUsed}%).`,
+      `${formatTokens(Math.max(0, data.tokenLimit - data.tokensUsed))} tokens remain until your quota resets on ${formatDate(data.resetsAt)}.`,
+      "Need more before then? Upgrade your plan or buy a token pack.",
+    ],
+    action: { label: "View plans", url: appUrl("/pricing") },
+  }),
+};
+
+export type EmailTemplate = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateData<T extends EmailTemplate> = Parameters<
+  (typeof EMAIL_TEMPLATES)[T]
+>[0];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs
+    .map((p) => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`)
+    .join("");
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#4f46e5;color:#fff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block">${escapeHtml(content.action.label)}</a></p>`
+    : "";
+
+  return `<!doctype html><html><body style="margin:0;background:#f5f5f7;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#1d1d1f"><div style="max-width:560px;margin:0 auto;padding:32px 24px"><h1 style="font-size:20px;margin:0 0 24px">ezLander</h1>${paragraphs}${action}<p style="margin:32px 0 0;font-size:12px;color:#86868b">Questions? Reply to this email or contact support@ezlander.app.</p></div></body></html>`;
+}
+
+function renderText(content: EmailContent): string {
+  const lines = [...content.paragraphs];
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`);
+  }
+  lines.push("Questions? Reply to this email or contact support@ezlander.app.");
+  return lines.join("\n\n");
+}
+
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData<T>
+): Omit<MailMessage, "to"> {
+  const build = EMAIL_TEMPLATES[template] as (
+    data: EmailTemplateData<T>
+  ) => EmailContent;
+  const content = build(data);
+
+  return {
+    subject: content.subject,
+    text: renderText(content),
+    html: renderHtml(content),
+  };
+}
@@ -0,0 +1,63 @@
+import bcrypt from "bcryptjs";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import { revokeUserSessions } from "@/lib/db/app-sessions";
+import {
+  consumeVerificationToken,
+  createVerificationToken,
+} from "@/lib/db/verification-tokens";
+
+const RESET_TTL_MS = 60 * 60_000;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function sendPasswordResetEmail(user: {
+  email: string;
+  name: string | null;
+}) {
+  const token = await createVerificationToken(
+    "reset-password",
+    user.email,
+    RESET_TTL_MS
+  );
+  const params = new URLSearchParams({ email: user.email, token });
+
+  await sendEmail(user.email, "reset_password", {
+    name: user.name,
+    resetUrl: `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?${params}`,
+  });
+}
+
+/**
+ * Sets a new password from a reset link and signs the user out of every app
+ * session. Following the link also proves the user owns the address, so an
+ * unverified email becomes verified. Returns null if the link is invalid.
+ */
+export async function resetPassword(
+  email: string,
+  token: string,
+  newPassword: string
+) {
+  const normalizedEmail = email.toLowerCase().trim();
+  if (!(await consumeVerificationToken("reset-password", normalizedEmail, token))) {
+    return null;
+  }
+
+  const now = new Date();
+  const [user] = await db
+    .update(authUsers)
+    .set({
+      passwordHash: await bcrypt.hash(newPassword, 12),
+      tokensValidAfter: now,
+      emailVerified: sql`coalesce(${authUsers.emailVerified}, ${now.getTime()})`,
+    })
+    .where(eq(authUsers.email, normalizedEmail))
+    .returning();
+
+  if (!user) return null;
+
+  await revokeUserSessions(user.id);
+  return user;
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import Stripe from 'stripe'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { authUsers, subscriptions } from '@/lib/db/schema'
+import { upsertSubscription } from '@/lib/db/subscription-repo'
+import { stripe } from '@/lib/stripe'
+import { changePlan } from '@/lib/plan-change'
+import { processStripeEvent } from '@/lib/stripe-webhook'
+
+const USER_ID = 'user-plan'
+const PERIOD_START = 1_772_323_200 // 2026-03-01
+const PERIOD_END = 1_775_001_600 // 2026-04-01
+
+// The user's pro monthly subscription as Stripe reports it, with a downgrade
+// scheduled by an earlier plan change
+function stripeSubscription(overrides: { tier: string; price: string; amount: number }) {
+  return {
+    id: 'sub_plan',
+    object: 'subscription',
+    customer: 'cus_plan',
+    status: 'active',
+    cancel_at_period_end: false,
+    schedule: 'sub_sched_plan',
+    current_period_start: PERIOD_START,
+    current_period_end: PERIOD_END,
+    metadata: { tier: overrides.tier },
+    items: {
+      data: [{ id: 'si_plan', quantity: 1, price: { id: overrides.price, unit_amount: overrides.amount } }],
+    },
+  } as unknown as Stripe.Subscription
+}
+
+const PRO_MONTHLY = { tier: 'pro', price: 'price_pro_monthly', amount: 999 }
+
+let calls: string[]
+
+async function loadRow() {
+  return (await db.query.subscriptions.findFirst({ where: eq(subscriptions.userId, USER_ID) }))!
+}
+
+beforeEach(async () => {
+  await db.delete(subscriptions)
+  await db.delete(authUsers)
+  await db.insert(authUsers).values({ id: USER_ID, email: 'plan@example.com' })
+  await upsertSubscription(USER_ID, {
+    stripeCustomerId: 'cus_plan',
+    stripeSubscriptionId: 'sub_plan',
+    tier: 'pro',
+    status: 'active',
+    currentPeriodStart: new Date(PERIOD_START * 1000).toISOString(),
+    currentPeriodEnd: new Date(PERIOD_END * 1000).toISOString(),
+    stripeEventAt: PERIOD_START,
+  })
+
+  calls = []
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(stripe.subscriptions, 'retrieve').mockResolvedValue(stripeSubscription(PRO_MONTHLY) as never)
+  vi.spyOn(stripe.subscriptions, 'update').mockImplementation((async () => {
+    calls.push('update')
+    return stripeSubscription({ tier: 'max', price: 'price_max_monthly', amount: 1999 })
+  }) as never)
+  vi.spyOn(stripe.subscriptionSchedules, 'release').mockImplementation((async () => {
+    calls.push('release')
+    return {}
+  }) as never)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('changePlan upgrades', () => {
+  it('releases a pending downgrade only after the upgrade is charged', async () => {
+    const result = await changePlan(USER_ID, 'max_monthly')
+
+    expect(result).toMatchObject({ status: 'changed', direction: 'upgrade', tier: 'max' })
+    expect(calls).toEqual(['update', 'release'])
+  })
+
+  it('keeps the pending downgrade when the card is declined', async () => {
+    vi.mocked(stripe.subscriptions.update).mockRejectedValue(
+      new Stripe.errors.StripeCardError({ type: 'card_error', message: 'Your card was declined.' })
+    )
+
+    const result = await changePlan(USER_ID, 'max_monthly')
+
+    expect(result).toEqual({ status: 'payment_failed', message: 'Your card was declined.' })
+    expect(calls).toEqual([])
+    expect((await loadRow()).tier).toBe('pro')
+  })
+
+  it('keeps the upgrade when releasing the schedule fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(stripe.subscriptionSchedules.release).mockRejectedValue(new Error('Stripe is down'))
+
+    const result = await changePlan(USER_ID, 'max_monthly')
+
+    expect(result).toMatchObject({ status: 'changed', tier: 'max' })
+    expect(error).toHaveBeenCalledWith(
+      'Failed to release schedule sub_sched_plan after upgrade:',
+      expect.any(Error)
+    )
+  })
+
+  it('is not undone by a webhook event from before the upgrade', async () => {
+    const before = Math.floor(Date.now() / 1000) - 60
+    await changePlan(USER_ID, 'max_monthly')
+
+    const row = await loadRow()
+    expect(row.tier).toBe('max')
+    expect(row.stripeEventAt).toBeGreaterThan(before)
+
+    const outcome = await processStripeEvent({
+      id: 'evt_stale_update',
+      object: 'event',
+      type: 'customer.subscription.updated',
+      created: before,
+      data: { object: stripeSubscription(PRO_MONTHLY), previous_attributes: {} },
+    } as unknown as Stripe.Event)
+
+    expect(outcome).toBe('ignored')
+    expect((await loadRow()).tier).toBe('max')
+  })
+})
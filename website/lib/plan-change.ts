@@ -0,0 +1,285 @@
+import { NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { stripe, getPlanKeyFromPriceId, STRIPE_PLANS, type StripePlanKey } from '@/lib/stripe'
+import { getActiveSubscription, updateSubscriptionTier } from '@/lib/db/subscription-repo'
+import { getTierTokenLimit, type SubscriptionTier } from '@/lib/tiers'
+
+const TIER_RANK: Record<SubscriptionTier, number> = { pro: 1, max: 2 }
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade'
+
+export type PlanChangeRejection =
+  | { status: 'no_subscription' }
+  | { status: 'same_plan' }
+  | { status: 'not_changeable'; reason: string }
+
+export type PlanChangePreview =
+  | {
+      status: 'ok'
+      plan: StripePlanKey
+      direction: PlanChangeDirection
+      effectiveAt: string
+      // Pass back to changePlan so the charge matches the preview
+      prorationDate: number | null
+      prorationAmount: number
+      amountDue: number
+      currency: string
+    }
+  | PlanChangeRejection
+
+export type PlanChangeResult =
+  | {
+      status: 'changed'
+      plan: StripePlanKey
+      direction: PlanChangeDirection
+      effectiveAt: string
+      tier: SubscriptionTier
+      tokenLimit: number
+    }
+  | { status: 'payment_failed'; message: string }
+  | PlanChangeRejection
+
+interface PlanChange {
+  subscription: Stripe.Subscription
+  item: Stripe.SubscriptionItem
+  tier: SubscriptionTier
+  plan: StripePlanKey
+  direction: PlanChangeDirection
+}
+
+/**
+ * Works out what moving the user to `plan` means. Moving to a higher tier, or
+ * to a pricier plan of the same tier (monthly to yearly), is an upgrade.
+ */
+async function resolvePlanChange(
+  userId: string,
+  plan: StripePlanKey
+): Promise<{ status: 'ok'; change: PlanChange } | PlanChangeRejection> {
+  const local = await getActiveSubscription(userId)
+  if (!local?.stripeSubscriptionId) return { status: 'no_subscription' }
+
+  if (local.graceUntil) {
+    return {
+      status: 'not_changeable',
+      reason: 'Your last payment failed. Update your payment method before changing plans.',
+    }
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(local.stripeSubscriptionId)
+  if (subscription.cancel_at_period_end) {
+    return {
+      status: 'not_changeable',
+      reason: 'Your subscription is set to cancel at the end of the billing period.',
+    }
+  }
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    return { status: 'not_changeable', reason: `Your subscription is ${subscription.status}.` }
+  }
+
+  const item = subscription.items.data[0]
+  if (!item) return { status: 'no_subscription' }
+  if (getPlanKeyFromPriceId(item.price.id) === plan) return { status: 'same_plan' }
+
+  const target = STRIPE_PLANS[plan]
+  const currentPrice = (item.price.unit_amount ?? 0) / 100
+  const isUpgrade =
+    TIER_RANK[target.tier] > TIER_RANK[local.tier] ||
+    (target.tier === local.tier && target.price > currentPrice)
+
+  return {
+    status: 'ok',
+    change: {
+      subscription,
+      item,
+      tier: local.tier,
+      plan,
+      direction: isUpgrade ? 'upgrade' : 'downgrade',
+    },
+  }
+}
+
+/**
+ * Previews the invoice a plan change leads to: the prorated charge due now
+ * for an upgrade, or the first renewal at the new price for a downgrade.
+ */
+export async function previewPlanChange(
+  userId: string,
+  plan: StripePlanKey
+): Promise<PlanChangePreview> {
+  const resolved = await resolvePlanChange(userId, plan)
+  if (resolved.status !== 'ok') return resolved
+
+  const { subscription, item, direction } = resolved.change
+  const items = [{ id: item.id, price: STRIPE_PLANS[plan].priceId }]
+
+  if (direction === 'upgrade') {
+    const prorationDate = Math.floor(Date.now() / 1000)
+    const invoice = await stripe.invoices.retrieveUpcoming({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_items: items,
+      subscription_proration_behavior: 'always_invoice',
+      subscription_proration_date: prorationDate,
+    })
+
+    return {
+      status: 'ok',
+      plan,
+      direction,
+      effectiveAt: new Date(prorationDate * 1000).toISOString(),
+      prorationDate,
+      prorationAmount: invoice.lines.data
+        .filter((line) => line.proration)
+        .reduce((sum, line) => sum + line.amount, 0),
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+    }
+  }
+
+  const invoice = await stripe.invoices.retrieveUpcoming({
+    customer: subscription.customer as string,
+    subscription: subscription.id,
+    subscription_items: items,
+    subscription_proration_behavior: 'none',
+  })
+
+  return {
+    status: 'ok',
+    plan,
+    direction,
+    effectiveAt: new Date(subscription.current_period_end * 1000).toISOString(),
+    prorationDate: null,
+    prorationAmount: 0,
+    amountDue: invoice.amount_due,
+    currency: invoice.currency,
+  }
+}
+
+/**
+ * Moves the subscription to `plan`. Upgrades are charged and take effect at
+ * once, including the tier's token limit. Downgrades are scheduled for the
+ * end of the billing period so the user keeps what they paid for; the tier
+ * changes when Stripe reports the new phase.
+ */
+export async function changePlan(
+  userId: string,
+  plan: StripePlanKey,
+  prorationDate?: number
+): Promise<PlanChangeResult> {
+  const resolved = await resolvePlanChange(userId, plan)
+  if (resolved.status !== 'ok') return resolved
+
+  const { subscription, item, direction } = resolved.change
+  const target = STRIPE_PLANS[plan]
+  const metadata = { ...subscription.metadata, tier: target.tier, plan }
+
+  if (direction === 'upgrade') {
+    try {
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: item.id, price: target.priceId }],
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate,
+        // Leave the plan alone unless the prorated invoice is paid
+        payment_behavior: 'error_if_incomplete',
+        metadata,
+      })
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        return { status: 'payment_failed', message: error.message }
+      }
+      throw error
+    }
+
+    await updateSubscriptionTier(subscription.id, target.tier, Math.floor(Date.now() / 1000))
+
+    // An upgrade replaces any downgrade still waiting for the period to end.
+    // Released only once the upgrade is paid for, so a declined card leaves
+    // the downgrade in place.
+    if (subscription.schedule) {
+      const scheduleId = getScheduleId(subscription.schedule)
+      await stripe.subscriptionSchedules.release(scheduleId).catch((err) =>
+        // The upgrade went through; the schedule has to be released by hand
+        // or it will move the subscription back down at the period end
+        console.error(`Failed to release schedule ${scheduleId} after upgrade:`, err)
+      )
+    }
+
+    return {
+      status: 'changed',
+      plan,
+      direction,
+      effectiveAt: new Date().toISOString(),
+      tier: target.tier,
+      tokenLimit: getTierTokenLimit(target.tier),
+    }
+  }
+
+  const schedule = subscription.schedule
+    ? await stripe.subscriptionSchedules.retrieve(getScheduleId(subscription.schedule))
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id })
+
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    phases: [
+      {
+        items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+        start_date: schedule.current_phase?.start_date ?? subscription.current_period_start,
+        end_date: subscription.current_period_end,
+        ...(subscription.status === 'trialing' && subscription.trial_end
+          ? { trial_end: subscription.trial_end }
+          : {}),
+        proration_behavior: 'none',
+        metadata: subscription.metadata,
+      },
+      {
+        items: [{ price: target.priceId, quantity: 1 }],
+        iterations: 1,
+        proration_behavior: 'none',
+        // Carried onto the subscription when the phase starts, which is how
+        // the webhook learns the new tier
+        metadata,
+      },
+    ],
+  })
+
+  return {
+    status: 'changed',
+    plan,
+    direction,
+    effectiveAt: new Date(subscription.current_period_end * 1000).toISOString(),
+    tier: resolved.change.tier,
+    tokenLimit: getTierTokenLimit(resolved.change.tier),
+  }
+}
+
+/** The response for a plan change that couldn't go ahead. */
+export function planChangeRejectionResponse(
+  rejection: PlanChangeRejection | { status: 'payment_failed'; message: string }
+) {
+  switch (rejection.status) {
+    case 'no_subscription':
+      return NextResponse.json(
+        { error: 'Active subscription required', code: 'NO_SUBSCRIPTION' },
+        { status: 403 }
+      )
+    case 'same_plan':
+      return NextResponse.json(
+        { error: "You're already on this plan", code: 'SAME_PLAN' },
+        { status: 400 }
+      )
+    case 'not_changeable':
+      return NextResponse.json(
+        { error: rejection.reason, code: 'PLAN_CHANGE_UNAVAILABLE' },
+        { status: 409 }
+      )
+    case 'payment_failed':
+      return NextResponse.json(
+        { error: rejection.message, code: 'PAYMENT_FAILED' },
+        { status: 402 }
+      )
+  }
+}
+
+function getScheduleId(schedule: string | Stripe.SubscriptionSchedule): string {
+  return typeof schedule === 'string' ? schedule : schedule.id
+}
@@ -0,0 +1,109 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers, emailOutbox, quotaNotifications } from "@/lib/db/schema";
+import { createCaptureTransport, setMailTransport } from "@/lib/email";
+import { getQuotaWarning, notifyQuotaThresholds } from "@/lib/quota-warnings";
+
+const USER_ID = "user-quota";
+const LIMIT = 1_000_000;
+const MARCH = {
+  start: "2026-03-01T00:00:00.000Z",
+  end: "2026-04-01T00:00:00.000Z",
+};
+const APRIL = {
+  start: "2026-04-01T00:00:00.000Z",
+  end: "2026-05-01T00:00:00.000Z",
+};
+
+let capture: ReturnType<typeof createCaptureTransport>;
+
+beforeAll(async () => {
+  await db
+    .insert(authUsers)
+    .values({ id: USER_ID, email: "quota@example.com" });
+});
+
+beforeEach(async () => {
+  await db.delete(quotaNotifications);
+  await db.delete(emailOutbox);
+  capture = createCaptureTransport();
+  setMailTransport(capture);
+});
+
+describe("getQuotaWarning", () => {
+  it("returns the highest threshold reached", () => {
+    expect(getQuotaWarning(490_000, LIMIT)).toBeNull();
+    expect(getQuotaWarning(500_000, LIMIT)).toEqual({
+      threshold: 50,
+      percentUsed: 50,
+    });
+    expect(getQuotaWarning(960_000, LIMIT)).toEqual({
+      threshold: 95,
+      percentUsed: 96,
+    });
+    expect(getQuotaWarning(2_000_000, LIMIT)).toEqual({
+      threshold: 95,
+      percentUsed: 100,
+    });
+  });
+
+  it("has nothing to warn about without a finite limit", () => {
+    expect(getQuotaWarning(100, Infinity)).toBeNull();
+    expect(getQuotaWarning(100, 0)).toBeNull();
+  });
+});
+
+describe("notifyQuotaThresholds", () => {
+  it("emails once for the highest threshold crossed", async () => {
+    const warning = await notifyQuotaThresholds(USER_ID, MARCH, 850_000, LIMIT);
+
+    expect(warning).toEqual({ threshold: 80, percentUsed: 85 });
+    expect(capture.messages).toHaveLength(1);
+    expect(capture.messages[0].to).toBe("quota@example.com");
+    expect(capture.messages[0].subject).toBe(
+      "You've used 80% of your ezLander AI tokens"
+    );
+
+    const rows = await db
+      .select()
+      .from(quotaNotifications)
+      .where(eq(quotaNotifications.userId, USER_ID));
+    expect(rows.map((row) => row.threshold).sort()).toEqual([50, 80]);
+    expect(rows.every((row) => row.emailedAt)).toBe(true);
+  });
+
+  it("stays quiet until the next threshold", async () => {
+    await notifyQuotaThresholds(USER_ID, MARCH, 850_000, LIMIT);
+    await notifyQuotaThresholds(USER_ID, MARCH, 900_000, LIMIT);
+    expect(capture.messages).toHaveLength(1);
+
+    await notifyQuotaThresholds(USER_ID, MARCH, 950_000, LIMIT);
+    expect(capture.messages).toHaveLength(2);
+    expect(capture.messages[1].subject).toContain("95%");
+  });
+
+  it("warns again in the next period", async () => {
+    await notifyQuotaThresholds(USER_ID, MARCH, 500_000, LIMIT);
+    await notifyQuotaThresholds(USER_ID, APRIL, 500_000, LIMIT);
+
+    expect(capture.messages).toHaveLength(2);
+  });
+
+  it("sends one email when concurrent charges cross the same threshold", async () => {
+    await Promise.all([
+      notifyQuotaThresholds(USER_ID, MARCH, 810_000, LIMIT),
+      notifyQuotaThresholds(USER_ID, MARCH, 820_000, LIMIT),
+      notifyQuotaThresholds(USER_ID, MARCH, 830_000, LIMIT),
+    ]);
+
+    expect(capture.messages).toHaveLength(1);
+  });
+
+  it("does nothing below the lowest threshold", async () => {
+    expect(
+      await notifyQuotaThresholds(USER_ID, MARCH, 100_000, LIMIT)
+    ).toBeNull();
+    expect(capture.messages).toHaveLength(0);
+  });
+});
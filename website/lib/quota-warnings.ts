@@ -0,0 +1,89 @@
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import {
+  markThresholdsEmailed,
+  recordCrossedThresholds,
+} from "@/lib/db/quota-notifications";
+import type { UsagePeriod } from "@/lib/db/token-usage";
+
+const DEFAULT_THRESHOLDS = [50, 80, 95];
+
+// QUOTA_WARNING_THRESHOLDS is a comma-separated list of percentages, e.g.
+// "50,80,95". Invalid entries are ignored.
+function parseThresholds(value: string | undefined): number[] {
+  const parsed = (value ?? "")
+    .split(",")
+    .map((entry) => Number(entry.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0 && n < 100);
+
+  if (parsed.length === 0) return DEFAULT_THRESHOLDS;
+  return Array.from(new Set(parsed)).sort((a, b) => a - b);
+}
+
+export const QUOTA_WARNING_THRESHOLDS = parseThresholds(
+  process.env.QUOTA_WARNING_THRESHOLDS
+);
+
+export interface QuotaWarning {
+  /** Highest configured threshold the usage has reached */
+  threshold: number;
+  percentUsed: number;
+}
+
+/**
+ * The warning to surface for `tokensUsed` of the tier quota, or null below the
+ * lowest threshold. Usage paid for with credits should not be included.
+ */
+export function getQuotaWarning(
+  tokensUsed: number,
+  tokenLimit: number
+): QuotaWarning | null {
+  if (!Number.isFinite(tokenLimit) || tokenLimit <= 0) return null;
+
+  const percentUsed = Math.min(100, Math.floor((tokensUsed / tokenLimit) * 100));
+  const crossed = QUOTA_WARNING_THRESHOLDS.filter((t) => percentUsed >= t);
+  if (crossed.length === 0) return null;
+
+  return { threshold: crossed[crossed.length - 1], percentUsed };
+}
+
+/**
+ * Records any thresholds newly crossed in `period` and emails the user about
+ * the highest one. Returns the current warning, if any.
+ */
+export async function notifyQuotaThresholds(
+  userId: string,
+  period: UsagePeriod,
+  tokensUsed: number,
+  tokenLimit: number
+): Promise<QuotaWarning | null> {
+  const warning = getQuotaWarning(tokensUsed, tokenLimit);
+  if (!warning) return null;
+
+  const newlyCrossed = await recordCrossedThresholds({
+    userId,
+    periodStart: period.start,
+    thresholds: QUOTA_WARNING_THRESHOLDS.filter((t) => t <= warning.threshold),
+    tokensUsed,
+    tokenLimit,
+  });
+  if (newlyCrossed.length === 0) return warning;
+
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+  });
+  if (!user?.email) return warning;
+
+  await sendEmail(user.email, "quota_warning", {
+    threshold: warning.threshold,
+    percentUsed: warning.percentUsed,
+    tokensUsed,
+    tokenLimit,
+    resetsAt: period.end,
+  });
+  await markThresholdsEmailed(userId, period.start, newlyCrossed);
+
+  return warning;
+}
@@ -1,25 +1,20 @@
 import { getToken } from "next-auth/jwt";
-import { jwtVerify } from "jose";
 import type { NextRequest } from "next/server";
-
-function getJwtSecret(): Uint8Array {
-  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
-  if (!secret) {
-    throw new Error("JWT secret not configured. Set AUTH_SECRET or NEXTAUTH_SECRET.");
-  }
-  return new TextEncoder().encode(secret);
-}
+import { verifyAppToken } from "@/lib/app-tokens";
 
 export interface RequestUser {
   userId: string;
   email?: string;
   name?: string;
+  /** App session the bearer token belongs to; absent for web sessions */
+  sessionId?: string;
 }
 
 function coerceRequestUser(payload: {
   sub?: string | null;
   email?: string | null;
   name?: string | null;
+  sid?: string | null;
 }): RequestUser | null {
   if (!payload.sub) {
     return null;
@@ -29,6 +24,7 @@ function coerceRequestUser(payload: {
     userId: payload.sub,
     ...(payload.email ? { email: payload.email } : {}),
     ...(payload.name ? { name: payload.name } : {}),
+    ...(payload.sid ? { sessionId: payload.sid } : {}),
   };
 }
 
@@ -56,14 +52,15 @@ export async function resolveRequestUser(
     return null;
   }
 
-  try {
-    const { payload } = await jwtVerify(bearerToken, getJwtSecret());
-    return coerceRequestUser({
-      sub: typeof payload.sub === "string" ? payload.sub : null,
-      email: typeof payload.email === "string" ? payload.email : null,
-      name: typeof payload.name === "string" ? payload.name : null,
-    });
-  } catch {
+  const payload = await verifyAppToken(bearerToken);
+  if (!payload) {
     return null;
   }
+
+  return coerceRequestUser({
+    sub: typeof payload.sub === "string" ? payload.sub : null,
+    email: typeof payload.email === "string" ? payload.email : null,
+    name: typeof payload.name === "string" ? payload.name : null,
+    sid: typeof payload.sid === "string" ? payload.sid : null,
+  });
 }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { resolveRequestUser, type RequestUser } from "@/lib/request-auth";
+
+export const ROLES = ["user", "support", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/** Each role has the privileges of the roles listed before it. */
+export function roleAtLeast(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Reads the user's role from the database. Tokens carry a role claim for
+ * clients to adapt their UI, but privileges are always checked here so a
+ * demotion takes effect immediately.
+ */
+export async function getUserRole(userId: string): Promise<Role | null> {
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, userId),
+    columns: { role: true },
+  });
+  return user?.role ?? null;
+}
+
+export async function hasRole(userId: string, required: Role): Promise<boolean> {
+  const role = await getUserRole(userId);
+  return !!role && roleAtLeast(role, required);
+}
+
+/**
+ * Authenticates the request and checks the user has at least `required`.
+ * Returns the user, or the 401/403 response to send back.
+ */
+export async function requireRole(
+  request: NextRequest,
+  required: Role
+): Promise<
+  | { user: RequestUser & { role: Role }; response?: never }
+  | { user?: never; response: NextResponse }
+> {
+  const authUser = await resolveRequestUser(request);
+  if (!authUser?.userId) {
+    return {
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const role = await getUserRole(authUser.userId);
+  if (!role || !roleAtLeast(role, required)) {
+    return {
+      response: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user: { ...authUser, role } };
+}
@@ -0,0 +1,86 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type Stripe from 'stripe'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { authUsers } from '@/lib/db/schema'
+import { upsertSubscription } from '@/lib/db/subscription-repo'
+import { createCaptureTransport, setMailTransport } from '@/lib/email'
+import { processStripeEvent } from '@/lib/stripe-webhook'
+
+const VERIFIED_AT = new Date('2026-01-01T00:00:00.000Z')
+
+let capture: ReturnType<typeof createCaptureTransport>
+let eventCount = 0
+
+function customerUpdated(email: string, previousEmail: string): Stripe.Event {
+  eventCount += 1
+  return {
+    id: `evt_customer_${eventCount}`,
+    object: 'event',
+    type: 'customer.updated',
+    created: 1_770_000_000 + eventCount,
+    data: {
+      object: { id: 'cus_email', object: 'customer', email },
+      previous_attributes: { email: previousEmail },
+    },
+  } as unknown as Stripe.Event
+}
+
+async function loadUser() {
+  return (await db.query.authUsers.findFirst({ where: eq(authUsers.id, 'user-email') }))!
+}
+
+beforeAll(async () => {
+  await db.insert(authUsers).values([
+    { id: 'user-email', email: 'old@example.com', emailVerified: VERIFIED_AT },
+    { id: 'user-other', email: 'taken@example.com' },
+  ])
+  await upsertSubscription('user-email', {
+    stripeCustomerId: 'cus_email',
+    stripeSubscriptionId: 'sub_email',
+    tier: 'pro',
+    status: 'active',
+    currentPeriodStart: '2026-01-01T00:00:00.000Z',
+    currentPeriodEnd: '2026-02-01T00:00:00.000Z',
+  })
+})
+
+beforeEach(async () => {
+  await db.update(authUsers).set({ pendingEmail: null }).where(eq(authUsers.id, 'user-email'))
+  capture = createCaptureTransport()
+  setMailTransport(capture)
+})
+
+describe('customer.updated', () => {
+  it('asks the new address to confirm instead of switching to it', async () => {
+    expect(await processStripeEvent(customerUpdated('New@Example.com', 'old@example.com'))).toBe(
+      'processed'
+    )
+
+    const user = await loadUser()
+    expect(user.email).toBe('old@example.com')
+    expect(user.emailVerified).toEqual(VERIFIED_AT)
+    expect(user.pendingEmail).toBe('new@example.com')
+
+    expect(capture.messages).toHaveLength(1)
+    expect(capture.messages[0].to).toBe('new@example.com')
+    expect(capture.messages[0].text).toContain('/api/account/email/confirm?')
+  })
+
+  it('ignores an address another account uses', async () => {
+    expect(await processStripeEvent(customerUpdated('taken@example.com', 'old@example.com'))).toBe(
+      'ignored'
+    )
+
+    expect((await loadUser()).pendingEmail).toBeNull()
+    expect(capture.messages).toHaveLength(0)
+  })
+
+  it('ignores a stale change from an address the account no longer has', async () => {
+    expect(await processStripeEvent(customerUpdated('new@example.com', 'older@example.com'))).toBe(
+      'ignored'
+    )
+
+    expect((await loadUser()).pendingEmail).toBeNull()
+  })
+})
@@ -0,0 +1,541 @@
+import Stripe from 'stripe'
+import { db } from '@/lib/db'
+import { users, referrals, authUsers } from '@/lib/db/schema'
+import { eq, and, or, lt, sql } from 'drizzle-orm'
+import { REFERRAL_CAP, REFERRAL_REWARD_DAYS } from '@/lib/referral'
+import {
+  ensureReferralProfile,
+  findReferralProfileByCode,
+  pauseReferralCredits,
+  reverseReferrals,
+} from '@/lib/account'
+import { requestEmailChange } from '@/lib/email-change'
+import {
+  stripe,
+  cancelSubscription,
+  getSubscriptionTier,
+  isTokenPackKey,
+  toSubscriptionStatus,
+  TOKEN_PACKS,
+} from '@/lib/stripe'
+import { recordTokenPackPurchase } from '@/lib/db/token-credits'
+import { SUBSCRIPTION_TIERS } from '@/lib/tiers'
+import { sendEmail } from '@/lib/email'
+import {
+  getSubscriptionByCustomerId,
+  upsertSubscription,
+  updateSubscriptionStatus,
+  type SubscriptionStatus,
+} from '@/lib/db/subscription-repo'
+import {
+  claimStripeEvent,
+  markStripeEventDone,
+  markStripeEventFailed,
+  type StripeEventClaim,
+} from '@/lib/db/stripe-events'
+
+export type StripeEventOutcome = 'processed' | 'ignored'
+
+// Subscriptions that still grant access, or will again once paid
+const REVOCABLE_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due', 'paused']
+
+function getPlanLookupKey(subscription: Stripe.Subscription): string {
+  return (
+    subscription.items.data.find(
+      (item) => typeof item.price?.lookup_key === 'string'
+    )?.price.lookup_key || 'unknown'
+  )
+}
+
+/**
+ * Handles a verified webhook event at most once. Redeliveries of an event
+ * that was already handled return "duplicate" without side effects; a
+ * failure is recorded on the event (so it can be replayed) and rethrown.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event
+): Promise<StripeEventOutcome | Exclude<StripeEventClaim, 'claimed'>> {
+  const claim = await claimStripeEvent(event)
+  if (claim !== 'claimed') return claim
+
+  try {
+    const outcome = await handleStripeEvent(event)
+    await markStripeEventDone(event.id, outcome)
+    return outcome
+  } catch (error) {
+    await markStripeEventFailed(event.id, error)
+    throw error
+  }
+}
+
+async function handleStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session
+      if (session.metadata?.type === 'token_pack') {
+        await handleTokenPackPurchase(session)
+      } else {
+        await handleCheckoutComplete(session, event.created)
+      }
+      return 'processed'
+    }
+
+    case 'customer.subscription.created': {
+      const subscription = event.data.object as Stripe.Subscription
+      await handleSubscriptionCreated(subscription, event.created)
+      return 'processed'
+    }
+
+    case 'customer.subscription.updated':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed': {
+      const subscription = event.data.object as Stripe.Subscription
+      return (await handleSubscriptionUpdated(subscription, event.created))
+        ? 'processed'
+        : 'ignored'
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription
+      return (await handleSubscriptionDeleted(subscription, event.created))
+        ? 'processed'
+        : 'ignored'
+    }
+
+    case 'customer.subscription.trial_will_end': {
+      const subscription = event.data.object as Stripe.Subscription
+      await handleTrialWillEnd(subscription)
+      return 'processed'
+    }
+
+    case 'invoice.payment_succeeded': {
+      const invoice = event.data.object as Stripe.Invoice
+      return (await handlePaymentSucceeded(invoice, event.created))
+        ? 'processed'
+        : 'ignored'
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice
+      await handlePaymentFailed(invoice, event.created)
+      return 'processed'
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge
+      return (await handleChargeRefunded(charge)) ? 'processed' : 'ignored'
+    }
+
+    case 'charge.dispute.created': {
+      const dispute = event.data.object as Stripe.Dispute
+      return (await handleDisputeCreated(dispute, event.created))
+        ? 'processed'
+        : 'ignored'
+    }
+
+    case 'customer.updated': {
+      const customer = event.data.object as Stripe.Customer
+      const previous = event.data.previous_attributes as Partial<Stripe.Customer> | undefined
+      return (await handleCustomerUpdated(customer, previous)) ? 'processed' : 'ignored'
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+      return 'ignored'
+  }
+}
+
+async function getCustomerEmail(customerId: string): Promise<string | null> {
+  const customer = await stripe.customers.retrieve(customerId)
+  if (customer.deleted) return null
+  return customer.email
+}
+
+function getObjectId(value: string | { id: string } | null): string | null {
+  return typeof value === 'string' ? value : value?.id ?? null
+}
+
+async function findOrCreateAuthUser(email: string): Promise<string | null> {
+  // Try to find existing auth user
+  const existing = await db.query.authUsers.findFirst({
+    where: eq(authUsers.email, email),
+  })
+  if (existing) return existing.id
+
+  // Create new auth user
+  const id = crypto.randomUUID()
+  await db.insert(authUsers).values({
+    id,
+    email,
+    name: email.split('@')[0],
+  })
+  return id
+}
+
+async function handleTokenPackPurchase(session: Stripe.Checkout.Session) {
+  if (session.payment_status !== 'paid') {
+    console.log(`Token pack checkout ${session.id} not paid yet: ${session.payment_status}`)
+    return
+  }
+
+  const pack = session.metadata?.pack
+  const userId = session.metadata?.user_id
+  if (!userId || !isTokenPackKey(pack)) {
+    console.error(`Token pack checkout ${session.id} is missing pack or user metadata`)
+    return
+  }
+
+  const credited = await recordTokenPackPurchase({
+    userId,
+    stripeCheckoutSessionId: session.id,
+    pack,
+    tokens: TOKEN_PACKS[pack].tokens,
+  })
+
+  if (credited) {
+    console.log(`Credited ${TOKEN_PACKS[pack].tokens} tokens to user ${userId}`)
+  }
+}
+
+async function handleCheckoutComplete(
+  session: Stripe.Checkout.Session,
+  eventCreated: number
+) {
+  const customerId = session.customer as string
+  const email = session.customer_email || session.customer_details?.email
+
+  console.log(`Checkout completed for customer: ${customerId}`)
+
+  if (!email) return
+
+  const authUserId = await findOrCreateAuthUser(email)
+  if (!authUserId) return
+
+  // Ensure referred user has a referral profile
+  await ensureReferralProfile({ id: authUserId, email })
+
+  // Upsert subscription in our DB
+  const subscriptionId = session.subscription as string
+  if (!subscriptionId) return
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId)
+  const tier = getSubscriptionTier(subscription)
+
+  await upsertSubscription(authUserId, {
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscriptionId,
+    tier,
+    status: subscription.status === 'trialing' ? 'trialing' : 'active',
+    currentPeriodStart: new Date(subscription.current_period_start * 1000).toISOString(),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    stripeEventAt: eventCreated,
+  })
+
+  // Process referral code
+  const referralCode = subscription.metadata?.referral_code
+  if (!referralCode) return
+
+  const referrer = await findReferralProfileByCode(referralCode)
+
+  if (!referrer) return
+
+  // Validate: not self-referral
+  if (referrer.userId === authUserId || referrer.email === email) {
+    console.log(`Self-referral blocked for customer: ${customerId}`)
+    return
+  }
+
+  // Validate: not duplicate
+  const existingReferral = await db.query.referrals.findFirst({
+    where: and(
+      eq(referrals.referrerEmail, referrer.email),
+      or(
+        eq(referrals.referredUserId, authUserId),
+        eq(referrals.referredEmail, email)
+      )
+    ),
+  })
+
+  if (existingReferral) {
+    console.log(`Duplicate referral blocked for customer: ${customerId}`)
+    return
+  }
+
+  // Validate: not at cap
+  if (referrer.referralsCount >= REFERRAL_CAP) {
+    console.log(`Referral cap reached for customer: ${customerId}`)
+    return
+  }
+
+  // Record the referral
+  await db.insert(referrals).values({
+    referrerEmail: referrer.email,
+    referredEmail: email,
+    referrerUserId: referrer.userId,
+    referredUserId: authUserId,
+    status: 'completed',
+    completedAt: new Date().toISOString(),
+  })
+
+  // Credit the referrer; incremented in SQL and capped in the same statement
+  // so concurrent referrals can't lose or exceed a credit
+  const [credited] = await db
+    .update(users)
+    .set({
+      referralCreditsDays: sql`${users.referralCreditsDays} + ${REFERRAL_REWARD_DAYS}`,
+      referralsCount: sql`${users.referralsCount} + 1`,
+    })
+    .where(and(eq(users.email, referrer.email), lt(users.referralsCount, REFERRAL_CAP)))
+    .returning({ referralsCount: users.referralsCount })
+
+  if (!credited) {
+    console.log(`Referral cap reached for customer: ${customerId}`)
+    return
+  }
+
+  console.log(`Referral completed: customer ${customerId} earned ${REFERRAL_REWARD_DAYS} days`)
+
+  await sendEmail(
+    referrer.email,
+    'referral_reward',
+    {
+      rewardDays: REFERRAL_REWARD_DAYS,
+      referralsCount: credited.referralsCount,
+      referralCap: REFERRAL_CAP,
+    },
+    { dedupeKey: `referral_reward:${referrer.email}:${email}` }
+  )
+}
+
+async function handleSubscriptionCreated(
+  subscription: Stripe.Subscription,
+  eventCreated: number
+) {
+  const customerId = subscription.customer as string
+  const plan = getPlanLookupKey(subscription)
+
+  console.log(`Subscription created: ${subscription.id}, plan: ${plan}`)
+
+  // When a user re-subscribes, pause credit consumption
+  const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer
+  const email = customer.email
+
+  if (email) {
+    const authUserId = await findOrCreateAuthUser(email)
+    if (authUserId && (await pauseReferralCredits(authUserId))) {
+      console.log(`Credits paused for re-subscribing customer: ${customerId}`)
+    }
+
+    // Ensure subscription record exists
+    const tier = getSubscriptionTier(subscription)
+
+    if (authUserId) {
+      await upsertSubscription(authUserId, {
+        stripeCustomerId: customerId,
+        stripeSubscriptionId: subscription.id,
+        tier,
+        status: subscription.status === 'trialing' ? 'trialing' : 'active',
+        currentPeriodStart: new Date(subscription.current_period_start * 1000).toISOString(),
+        currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+        stripeEventAt: eventCreated,
+      })
+    }
+  }
+}
+
+async function handleSubscriptionUpdated(
+  subscription: Stripe.Subscription,
+  eventCreated: number
+): Promise<boolean> {
+  console.log(`Subscription updated: ${subscription.id}, status: ${subscription.status}`)
+
+  const tier = getSubscriptionTier(subscription)
+  const mappedStatus = toSubscriptionStatus(subscription.status)
+
+  const applied = await updateSubscriptionStatus(subscription.id, mappedStatus, {
+    tier,
+    currentPeriodStart: new Date(subscription.current_period_start * 1000).toISOString(),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    stripeEventAt: eventCreated,
+  })
+  if (!applied) {
+    console.log(`Skipped stale or unknown subscription update: ${subscription.id}`)
+  }
+  return applied
+}
+
+async function handleSubscriptionDeleted(
+  subscription: Stripe.Subscription,
+  eventCreated: number
+): Promise<boolean> {
+  console.log(`Subscription deleted: ${subscription.id}`)
+
+  return updateSubscriptionStatus(subscription.id, 'expired', {
+    stripeEventAt: eventCreated,
+  })
+}
+
+async function handlePaymentSucceeded(
+  invoice: Stripe.Invoice,
+  eventCreated: number
+): Promise<boolean> {
+  const customerId = invoice.customer as string
+  console.log(`Payment succeeded for customer: ${customerId}`)
+
+  const subscriptionId = getObjectId(invoice.subscription)
+  if (!subscriptionId) return false
+
+  // Settling the overdue invoice gives access back straight away
+  const restored = await updateSubscriptionStatus(subscriptionId, 'active', {
+    stripeEventAt: eventCreated,
+    fromStatuses: ['past_due'],
+  })
+  if (restored) {
+    console.log(`Subscription restored after payment: ${subscriptionId}`)
+  }
+  return restored
+}
+
+async function handlePaymentFailed(invoice: Stripe.Invoice, eventCreated: number) {
+  const customerId = invoice.customer as string
+  console.log(`Payment failed for customer: ${customerId}`)
+
+  const subscriptionId = getObjectId(invoice.subscription)
+  if (subscriptionId) {
+    await updateSubscriptionStatus(subscriptionId, 'past_due', {
+      stripeEventAt: eventCreated,
+      fromStatuses: ['active', 'trialing'],
+    })
+  }
+
+  const email = invoice.customer_email || (await getCustomerEmail(customerId))
+  if (!email) return
+
+  await sendEmail(
+    email,
+    'payment_failed',
+    {
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+      nextAttemptAt: invoice.next_payment_attempt
+        ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+        : null,
+      invoiceUrl: invoice.hosted_invoice_url ?? null,
+    },
+    // One email per failed attempt, however often Stripe redelivers the event
+    { dedupeKey: `payment_failed:${invoice.id}:${invoice.attempt_count}` }
+  )
+}
+
+async function handleTrialWillEnd(subscription: Stripe.Subscription) {
+  console.log(`Trial ending soon for subscription: ${subscription.id}`)
+
+  if (!subscription.trial_end) return
+
+  const email = await getCustomerEmail(subscription.customer as string)
+  if (!email) return
+
+  const tier = getSubscriptionTier(subscription)
+
+  await sendEmail(
+    email,
+    'trial_ending',
+    {
+      tier: SUBSCRIPTION_TIERS[tier].name,
+      trialEndsAt: new Date(subscription.trial_end * 1000).toISOString(),
+    },
+    { dedupeKey: `trial_ending:${subscription.id}:${subscription.trial_end}` }
+  )
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<boolean> {
+  const customerId = getObjectId(charge.customer)
+
+  // Partial refunds are goodwill gestures; only a full refund of a
+  // subscription payment means the customer never really paid
+  if (!charge.refunded || !charge.invoice || !customerId) {
+    console.log(`Ignoring refund on charge: ${charge.id}`)
+    return false
+  }
+
+  const subscription = await getSubscriptionByCustomerId(customerId)
+  if (!subscription) return false
+
+  const referrers = await reverseReferrals(subscription.userId)
+  if (referrers.length > 0) {
+    console.log(`Referral rewards reversed after refund for customer: ${customerId}`)
+  }
+  return true
+}
+
+async function handleDisputeCreated(
+  dispute: Stripe.Dispute,
+  eventCreated: number
+): Promise<boolean> {
+  const charge =
+    typeof dispute.charge === 'string'
+      ? await stripe.charges.retrieve(dispute.charge)
+      : dispute.charge
+  const customerId = getObjectId(charge.customer)
+
+  console.log(`Dispute opened on charge ${charge.id} for customer: ${customerId}`)
+
+  if (!customerId) return false
+
+  const subscription = await getSubscriptionByCustomerId(customerId)
+  if (!subscription) return false
+
+  // A disputed payment loses access at once rather than at period end, and
+  // the subscription is cancelled so Stripe doesn't bill the card again
+  if (
+    subscription.stripeSubscriptionId &&
+    REVOCABLE_STATUSES.includes(subscription.status)
+  ) {
+    await cancelSubscription(subscription.stripeSubscriptionId)
+    await updateSubscriptionStatus(subscription.stripeSubscriptionId, 'expired', {
+      stripeEventAt: eventCreated,
+    })
+    console.log(`Access revoked after dispute: ${subscription.stripeSubscriptionId}`)
+  }
+
+  await reverseReferrals(subscription.userId)
+  return true
+}
+
+async function handleCustomerUpdated(
+  customer: Stripe.Customer,
+  previous: Partial<Stripe.Customer> | undefined
+): Promise<boolean> {
+  if (!previous || !('email' in previous) || !customer.email) return false
+
+  const subscription = await getSubscriptionByCustomerId(customer.id)
+  if (!subscription) return false
+
+  const user = await db.query.authUsers.findFirst({
+    where: eq(authUsers.id, subscription.userId),
+  })
+  const email = customer.email.toLowerCase()
+
+  // Only follow a change away from the address we have, so a stale event
+  // can't move the account back to an old one. Changes confirmed on our side
+  // update Stripe first and are finished by confirmEmailChange.
+  if (
+    !user ||
+    user.email === email ||
+    user.pendingEmail === email ||
+    previous.email?.toLowerCase() !== user.email
+  ) {
+    return false
+  }
+
+  // Whoever edited the customer in Stripe hasn't shown they own the address,
+  // so it only becomes the sign-in email once confirmed from a link sent to it
+  const result = await requestEmailChange(user, email)
+  if (result === 'email_in_use') {
+    console.error(`Customer ${customer.id} email ${email} belongs to another account`)
+    return false
+  }
+
+  console.log(`Email change from Stripe awaiting confirmation for customer: ${customer.id}`)
+  return true
+}
@@ -1,9 +1,21 @@
 import Stripe from 'stripe'
-import type { SubscriptionTier } from '@/lib/tiers'
+import { isValidTier, type SubscriptionTier } from '@/lib/tiers'
+import type { SubscriptionStatus } from '@/lib/db/subscription-repo'
+
+// STRIPE_API_BASE points the client at a local stand-in for the Stripe API,
+// e.g. stripe-mock, so jobs can run without touching a real account
+const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null
 
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
   typescript: true,
+  ...(apiBase
+    ? {
+        host: apiBase.hostname,
+        port: apiBase.port || undefined,
+        protocol: apiBase.protocol === 'http:' ? 'http' : 'https',
+      }
+    : {}),
 })
 
 export const STRIPE_PLANS = {
@@ -39,6 +51,36 @@ export const STRIPE_PLANS = {
 
 export type StripePlanKey = keyof typeof STRIPE_PLANS
 
+export function isStripePlanKey(value: unknown): value is StripePlanKey {
+  return typeof value === 'string' && Object.hasOwn(STRIPE_PLANS, value)
+}
+
+/** The plan a price belongs to, or null for legacy and unknown prices. */
+export function getPlanKeyFromPriceId(priceId: string): StripePlanKey | null {
+  const plans = Object.entries(STRIPE_PLANS) as [StripePlanKey, (typeof STRIPE_PLANS)[StripePlanKey]][]
+  return plans.find(([, plan]) => plan.priceId === priceId)?.[0] ?? null
+}
+
+// One-time token top-ups, drawn once the tier's monthly quota is spent
+export const TOKEN_PACKS = {
+  tokens_1m: {
+    priceId: process.env.STRIPE_TOKENS_1M_PRICE_ID!,
+    tokens: 1_000_000,
+    price: 4.99,
+  },
+  tokens_5m: {
+    priceId: process.env.STRIPE_TOKENS_5M_PRICE_ID!,
+    tokens: 5_000_000,
+    price: 19.99,
+  },
+}
+
+export type TokenPackKey = keyof typeof TOKEN_PACKS
+
+export function isTokenPackKey(value: unknown): value is TokenPackKey {
+  return typeof value === 'string' && Object.hasOwn(TOKEN_PACKS, value)
+}
+
 // Legacy plan IDs for backward compatibility during migration
 const LEGACY_PRICE_IDS: Record<string, SubscriptionTier> = {
   [process.env.STRIPE_MONTHLY_PRICE_ID ?? '']: 'pro',
@@ -54,6 +96,27 @@ export function getTierFromPriceId(priceId: string): SubscriptionTier {
   return LEGACY_PRICE_IDS[priceId] ?? 'pro'
 }
 
+/** The tier a subscription grants, from its checkout metadata or its price. */
+export function getSubscriptionTier(subscription: Stripe.Subscription): SubscriptionTier {
+  const tier = subscription.metadata?.tier
+  if (tier && isValidTier(tier)) return tier
+  return getTierFromPriceId(subscription.items.data[0]?.price?.id ?? '')
+}
+
+const SUBSCRIPTION_STATUSES: Partial<Record<Stripe.Subscription.Status, SubscriptionStatus>> = {
+  active: 'active',
+  trialing: 'trialing',
+  canceled: 'canceled',
+  past_due: 'past_due',
+  paused: 'paused',
+  unpaid: 'expired',
+}
+
+/** Maps a Stripe subscription status onto ours; anything unknown has no access. */
+export function toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  return SUBSCRIPTION_STATUSES[status] ?? 'expired'
+}
+
 function getSubscriptionPlanLookupKey(subscription: Stripe.Subscription): string | null {
   return (
     subscription.items.data.find(
@@ -129,6 +192,19 @@ export async function cancelSubscription(subscriptionId: string) {
   return stripe.subscriptions.cancel(subscriptionId)
 }
 
+export async function setCancelAtPeriodEnd(
+  subscriptionId: string,
+  cancelAtPeriodEnd: boolean
+) {
+  return stripe.subscriptions.update(subscriptionId, {
+    cancel_at_period_end: cancelAtPeriodEnd,
+  })
+}
+
+export async function updateCustomerEmail(customerId: string, email: string) {
+  return stripe.customers.update(customerId, { email })
+}
+
 export async function getSubscriptionStatus(email: string) {
   const customer = await getCustomerByEmail(email)
 
@@ -0,0 +1,264 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers, subscriptions } from "@/lib/db/schema";
+import { startMockStripe, type MockStripe } from "@/test/mock-stripe";
+
+type Reconciliation = typeof import("@/lib/subscription-reconciliation");
+
+const DAY = 24 * 60 * 60;
+const NOW = Math.floor(Date.now() / 1000);
+
+function iso(unixSeconds: number) {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+function stripeSubscription(
+  id: string,
+  status: string,
+  tier: string,
+  periodEnd: number
+) {
+  return {
+    id,
+    object: "subscription",
+    customer: `cus_${id}`,
+    status,
+    metadata: { tier },
+    current_period_start: periodEnd - 30 * DAY,
+    current_period_end: periodEnd,
+    items: { object: "list", data: [{ id: `si_${id}`, price: { id: "price_pro_monthly" } }] },
+  };
+}
+
+const STRIPE_SUBSCRIPTIONS = [
+  stripeSubscription("sub_in_sync", "active", "pro", NOW + 10 * DAY),
+  // Renewed and upgraded while the webhooks were missed
+  stripeSubscription("sub_drifted", "active", "max", NOW + 20 * DAY),
+  // Canceled in Stripe, still active here
+  stripeSubscription("sub_canceled", "canceled", "pro", NOW - 2 * DAY),
+  // Upgraded, but a webhook updated the row after the job started
+  stripeSubscription("sub_raced", "active", "max", NOW + 15 * DAY),
+  // A checkout whose webhook never arrived
+  stripeSubscription("sub_no_row", "trialing", "pro", NOW + 5 * DAY),
+  // Long over and replaced by a newer subscription
+  stripeSubscription("sub_ended", "canceled", "pro", NOW - 90 * DAY),
+];
+
+let mockStripe: MockStripe;
+let reconciliation: Reconciliation;
+
+async function loadRow(userId: string) {
+  return (await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.userId, userId),
+  }))!;
+}
+
+beforeAll(async () => {
+  mockStripe = await startMockStripe({ pageSize: 2 });
+  mockStripe.setSubscriptions(STRIPE_SUBSCRIPTIONS);
+  // lib/stripe reads the base URL when it is first imported
+  vi.stubEnv("STRIPE_API_BASE", mockStripe.url);
+  reconciliation = await import("@/lib/subscription-reconciliation");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mockStripe.close();
+});
+
+beforeEach(async () => {
+  await db.delete(subscriptions);
+  await db.delete(authUsers);
+  await db.insert(authUsers).values(
+    ["in-sync", "drifted", "canceled", "raced", "gone", "manual"].map((id) => ({
+      id,
+      email: `${id}@example.com`,
+    }))
+  );
+  await db.insert(subscriptions).values([
+    {
+      userId: "in-sync",
+      stripeSubscriptionId: "sub_in_sync",
+      tier: "pro",
+      status: "active",
+      currentPeriodEnd: iso(NOW + 10 * DAY),
+    },
+    {
+      userId: "drifted",
+      stripeSubscriptionId: "sub_drifted",
+      tier: "pro",
+      status: "past_due",
+      pastDueSince: iso(NOW - DAY),
+      currentPeriodEnd: iso(NOW - 10 * DAY),
+    },
+    {
+      userId: "canceled",
+      stripeSubscriptionId: "sub_canceled",
+      tier: "pro",
+      status: "active",
+      currentPeriodEnd: iso(NOW - 2 * DAY),
+    },
+    {
+      userId: "raced",
+      stripeSubscriptionId: "sub_raced",
+      tier: "pro",
+      status: "active",
+      currentPeriodEnd: iso(NOW + 15 * DAY),
+      stripeEventAt: NOW + 60,
+    },
+    // Deleted from Stripe, with the deletion webhook missed
+    {
+      userId: "gone",
+      stripeSubscriptionId: "sub_gone",
+      tier: "max",
+      status: "canceled",
+      currentPeriodEnd: iso(NOW - DAY),
+    },
+    // Granted by hand, with no Stripe subscription behind it
+    {
+      userId: "manual",
+      stripeSubscriptionId: null,
+      tier: "pro",
+      status: "active",
+      currentPeriodEnd: iso(NOW - DAY),
+    },
+  ]);
+});
+
+describe("reconcileSubscriptions", () => {
+  it("reports what it changed", async () => {
+    const report = await reconciliation.reconcileSubscriptions({
+      now: new Date(NOW * 1000),
+    });
+
+    expect(report.dryRun).toBe(false);
+    expect(report.stripeSubscriptions).toBe(STRIPE_SUBSCRIPTIONS.length);
+    expect(report.errors).toEqual([]);
+
+    expect(report.updated).toEqual([
+      {
+        stripeSubscriptionId: "sub_drifted",
+        userId: "drifted",
+        status: { from: "past_due", to: "active" },
+        tier: { from: "pro", to: "max" },
+        currentPeriodEnd: { from: iso(NOW - 10 * DAY), to: iso(NOW + 20 * DAY) },
+      },
+      {
+        stripeSubscriptionId: "sub_canceled",
+        userId: "canceled",
+        status: { from: "active", to: "canceled" },
+      },
+    ]);
+
+    expect(report.expired).toEqual([
+      {
+        stripeSubscriptionId: "sub_canceled",
+        userId: "canceled",
+        status: "canceled",
+        currentPeriodEnd: iso(NOW - 2 * DAY),
+      },
+      {
+        stripeSubscriptionId: "sub_gone",
+        userId: "gone",
+        status: "canceled",
+        currentPeriodEnd: iso(NOW - DAY),
+      },
+      {
+        stripeSubscriptionId: null,
+        userId: "manual",
+        status: "active",
+        currentPeriodEnd: iso(NOW - DAY),
+      },
+    ]);
+
+    expect(report.missing).toEqual([
+      {
+        stripeSubscriptionId: "sub_no_row",
+        stripeCustomerId: "cus_sub_no_row",
+        status: "trialing",
+      },
+    ]);
+
+    expect(report.skipped).toEqual(["sub_raced"]);
+  });
+
+  it("brings drifted rows in line with Stripe", async () => {
+    await reconciliation.reconcileSubscriptions({ now: new Date(NOW * 1000) });
+
+    expect(await loadRow("drifted")).toMatchObject({
+      status: "active",
+      tier: "max",
+      currentPeriodStart: iso(NOW - 10 * DAY),
+      currentPeriodEnd: iso(NOW + 20 * DAY),
+      pastDueSince: null,
+      stripeEventAt: NOW,
+    });
+    expect(await loadRow("in-sync")).toMatchObject({
+      status: "active",
+      stripeEventAt: null,
+    });
+  });
+
+  it("expires rows whose period ended", async () => {
+    await reconciliation.reconcileSubscriptions({ now: new Date(NOW * 1000) });
+
+    for (const userId of ["canceled", "gone", "manual"]) {
+      expect((await loadRow(userId)).status).toBe("expired");
+    }
+  });
+
+  it("leaves rows a webhook updated after the job started", async () => {
+    await reconciliation.reconcileSubscriptions({ now: new Date(NOW * 1000) });
+
+    expect(await loadRow("raced")).toMatchObject({
+      tier: "pro",
+      stripeEventAt: NOW + 60,
+    });
+  });
+
+  it("changes nothing on a dry run", async () => {
+    const before = await db.select().from(subscriptions);
+
+    const report = await reconciliation.reconcileSubscriptions({
+      dryRun: true,
+      now: new Date(NOW * 1000),
+    });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.updated.map((change) => change.stripeSubscriptionId)).toEqual([
+      "sub_drifted",
+      "sub_canceled",
+      "sub_raced",
+    ]);
+    expect(report.expired).toHaveLength(3);
+    expect(report.skipped).toEqual([]);
+    expect(await db.select().from(subscriptions)).toEqual(before);
+  });
+
+  it("has nothing left to do on a second run", async () => {
+    await reconciliation.reconcileSubscriptions({ now: new Date(NOW * 1000) });
+
+    const report = await reconciliation.reconcileSubscriptions({
+      now: new Date(NOW * 1000),
+    });
+
+    expect(report.updated).toEqual([]);
+    expect(report.expired).toEqual([]);
+    expect(report.skipped).toEqual(["sub_raced"]);
+    expect(report.missing).toHaveLength(1);
+  });
+
+  it("pages through every Stripe subscription", async () => {
+    mockStripe.requests.length = 0;
+
+    await reconciliation.reconcileSubscriptions({
+      dryRun: true,
+      now: new Date(NOW * 1000),
+    });
+
+    expect(mockStripe.requests).toEqual(
+      Array(Math.ceil(STRIPE_SUBSCRIPTIONS.length / 2)).fill("GET /v1/subscriptions")
+    );
+  });
+});
@@ -0,0 +1,272 @@
+import { db } from "@/lib/db";
+import { subscriptions } from "@/lib/db/schema";
+import { eq, and, ne, lte } from "drizzle-orm";
+import {
+  stripe,
+  getSubscriptionTier,
+  toSubscriptionStatus,
+} from "@/lib/stripe";
+import {
+  updateSubscriptionStatus,
+  type SubscriptionStatus,
+} from "@/lib/db/subscription-repo";
+import type { SubscriptionTier } from "@/lib/tiers";
+
+// Stripe subscriptions in these states should have a row here; ended ones
+// are usually replaced by the user's newer subscription and aren't reported
+const LIVE_STATUSES: SubscriptionStatus[] = [
+  "active",
+  "trialing",
+  "past_due",
+  "paused",
+];
+
+type SubscriptionRow = typeof subscriptions.$inferSelect;
+
+interface FieldChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  stripeSubscriptions: number;
+  // Rows brought back in line with Stripe
+  updated: {
+    stripeSubscriptionId: string;
+    userId: string;
+    status?: FieldChange<SubscriptionStatus>;
+    tier?: FieldChange<SubscriptionTier>;
+    currentPeriodEnd?: FieldChange<string | null>;
+  }[];
+  // Rows whose period ended without Stripe renewing them
+  expired: {
+    stripeSubscriptionId: string | null;
+    userId: string;
+    status: SubscriptionStatus;
+    currentPeriodEnd: string | null;
+  }[];
+  // Live Stripe subscriptions with no row, e.g. a missed checkout
+  missing: {
+    stripeSubscriptionId: string;
+    stripeCustomerId: string;
+    status: string;
+  }[];
+  // Rows a webhook updated while the job ran, left as they are
+  skipped: string[];
+  errors: { stripeSubscriptionId: string | null; error: string }[];
+}
+
+interface ReconciliationRun {
+  report: ReconciliationReport;
+  // Unix seconds; rows updated by a webhook event after this are left alone
+  startedAt: number;
+}
+
+function toIso(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+/**
+ * Brings `subscriptions` in line with Stripe in case a webhook was missed:
+ * pages through every Stripe subscription, fixes rows whose status, tier or
+ * period end disagree, then expires rows whose period has ended. Writes are
+ * tagged with the time the job started, so a webhook applied meanwhile wins.
+ * With `dryRun` nothing is written and the report shows what would change.
+ */
+export async function reconcileSubscriptions(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<ReconciliationReport> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const startedAt = Math.floor(now.getTime() / 1000);
+
+  const report: ReconciliationReport = {
+    dryRun,
+    startedAt: now.toISOString(),
+    finishedAt: "",
+    stripeSubscriptions: 0,
+    updated: [],
+    expired: [],
+    missing: [],
+    skipped: [],
+    errors: [],
+  };
+
+  const rows = await db.select().from(subscriptions);
+  const rowsBySubscriptionId = new Map(
+    rows
+      .filter((row) => row.stripeSubscriptionId)
+      .map((row) => [row.stripeSubscriptionId!, row])
+  );
+  const stripeStatuses = new Map<string, SubscriptionStatus>();
+
+  for await (const subscription of stripe.subscriptions.list({
+    status: "all",
+    limit: 100,
+  })) {
+    report.stripeSubscriptions += 1;
+
+    const status = toSubscriptionStatus(subscription.status);
+    stripeStatuses.set(subscription.id, status);
+
+    const row = rowsBySubscriptionId.get(subscription.id);
+    if (!row) {
+      if (LIVE_STATUSES.includes(status)) {
+        report.missing.push({
+          stripeSubscriptionId: subscription.id,
+          stripeCustomerId: subscription.customer as string,
+          status: subscription.status,
+        });
+      }
+      continue;
+    }
+
+    try {
+      const synced = await syncRow(
+        row,
+        {
+          status,
+          tier: getSubscriptionTier(subscription),
+          currentPeriodStart: toIso(subscription.current_period_start),
+          currentPeriodEnd: toIso(subscription.current_period_end),
+        },
+        { report, startedAt }
+      );
+      if (synced) row.currentPeriodEnd = toIso(subscription.current_period_end);
+    } catch (error) {
+      report.errors.push({
+        stripeSubscriptionId: subscription.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Rows still granting access after their period ended. One Stripe still
+  // reports as live (say, a renewal being retried) is left to the webhooks
+  // and the dunning grace period.
+  const ended = await db
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        ne(subscriptions.status, "expired"),
+        lte(subscriptions.currentPeriodEnd, now.toISOString())
+      )
+    );
+
+  for (const row of ended) {
+    const stripeStatus = row.stripeSubscriptionId
+      ? stripeStatuses.get(row.stripeSubscriptionId)
+      : undefined;
+    if (stripeStatus && LIVE_STATUSES.includes(stripeStatus)) continue;
+
+    // The sync above may have moved the period on without the query seeing it
+    const synced = row.stripeSubscriptionId
+      ? rowsBySubscriptionId.get(row.stripeSubscriptionId)
+      : undefined;
+    if (synced?.currentPeriodEnd && synced.currentPeriodEnd > now.toISOString()) {
+      continue;
+    }
+
+    try {
+      if (!dryRun && row.stripeSubscriptionId) {
+        const applied = await updateSubscriptionStatus(
+          row.stripeSubscriptionId,
+          "expired",
+          { stripeEventAt: startedAt }
+        );
+        if (!applied) {
+          report.skipped.push(row.stripeSubscriptionId);
+          continue;
+        }
+      } else if (!dryRun) {
+        await expireRowWithoutStripe(row);
+      }
+
+      report.expired.push({
+        stripeSubscriptionId: row.stripeSubscriptionId,
+        userId: row.userId,
+        status: row.status,
+        currentPeriodEnd: row.currentPeriodEnd,
+      });
+    } catch (error) {
+      report.errors.push({
+        stripeSubscriptionId: row.stripeSubscriptionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
+
+// Updates the row to match Stripe and records what changed. Returns false if
+// a webhook got there first.
+async function syncRow(
+  row: SubscriptionRow,
+  expected: {
+    status: SubscriptionStatus;
+    tier: SubscriptionTier;
+    currentPeriodStart: string;
+    currentPeriodEnd: string;
+  },
+  run: ReconciliationRun
+): Promise<boolean> {
+  // Canceled rows are expired once their period ends, which isn't drift
+  if (row.status === "expired" && expected.status === "canceled") {
+    expected = { ...expected, status: "expired" };
+  }
+
+  const change: ReconciliationReport["updated"][number] = {
+    stripeSubscriptionId: row.stripeSubscriptionId!,
+    userId: row.userId,
+  };
+  if (row.status !== expected.status) {
+    change.status = { from: row.status, to: expected.status };
+  }
+  if (row.tier !== expected.tier) {
+    change.tier = { from: row.tier, to: expected.tier };
+  }
+  if (row.currentPeriodEnd !== expected.currentPeriodEnd) {
+    change.currentPeriodEnd = {
+      from: row.currentPeriodEnd,
+      to: expected.currentPeriodEnd,
+    };
+  }
+  if (!change.status && !change.tier && !change.currentPeriodEnd) return true;
+
+  if (!run.report.dryRun) {
+    const applied = await updateSubscriptionStatus(
+      change.stripeSubscriptionId,
+      expected.status,
+      {
+        tier: expected.tier,
+        currentPeriodStart: expected.currentPeriodStart,
+        currentPeriodEnd: expected.currentPeriodEnd,
+        stripeEventAt: run.startedAt,
+      }
+    );
+    if (!applied) {
+      run.report.skipped.push(change.stripeSubscriptionId);
+      return false;
+    }
+  }
+
+  run.report.updated.push(change);
+  return true;
+}
+
+async function expireRowWithoutStripe(row: SubscriptionRow) {
+  await db
+    .update(subscriptions)
+    .set({
+      status: "expired",
+      pastDueSince: null,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(and(eq(subscriptions.id, row.id), ne(subscriptions.status, "expired")));
+}
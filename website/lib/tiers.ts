@@ -36,3 +36,12 @@ export function getTierTokenLimit(tier: SubscriptionTier): number {
 export function isValidTier(tier: string): tier is SubscriptionTier {
   return tier === 'pro' || tier === 'max'
 }
+
+/**
+ * Maximum concurrent signed-in app installs for a tier, from
+ * DEVICE_LIMIT_PRO / DEVICE_LIMIT_MAX. Unset or 0 means no cap.
+ */
+export function getTierDeviceLimit(tier: SubscriptionTier): number | null {
+  const limit = parseInt(process.env[`DEVICE_LIMIT_${tier.toUpperCase()}`] ?? '', 10)
+  return Number.isFinite(limit) && limit > 0 ? limit : null
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { authUsers, recoveryCodes } from "@/lib/db/schema";
+import { replaceRecoveryCodes } from "@/lib/db/recovery-codes";
+import { startTwoFactorSetup, verifySecondFactor } from "@/lib/two-factor";
+
+const USER_ID = "user-2fa";
+const START = new Date("2026-03-01T12:00:00.000Z");
+
+let codes: string[];
+
+async function loadUser() {
+  return (await db.query.authUsers.findFirst({ where: eq(authUsers.id, USER_ID) }))!;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+
+  await db.delete(recoveryCodes);
+  await db.delete(authUsers);
+  await db.insert(authUsers).values({ id: USER_ID, email: "2fa@example.com" });
+  await startTwoFactorSetup(await loadUser());
+  await db
+    .update(authUsers)
+    .set({ totpEnabledAt: START })
+    .where(eq(authUsers.id, USER_ID));
+  codes = await replaceRecoveryCodes(USER_ID);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("verifySecondFactor", () => {
+  it("stops accepting codes for the account once the attempt limit is reached", async () => {
+    const user = await loadUser();
+    for (let i = 0; i < 5; i++) {
+      expect(await verifySecondFactor(user, "wrong")).toBe(false);
+    }
+
+    expect(await verifySecondFactor(user, codes[0])).toBe(false);
+    expect((await loadUser()).totpAttempts).toBe(5);
+
+    vi.setSystemTime(new Date(START.getTime() + 5 * 60_000));
+    expect(await verifySecondFactor(user, codes[0])).toBe(true);
+    expect((await loadUser()).totpAttempts).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { authUsers } from "@/lib/db/schema";
+import { eq, and, gt, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "@/lib/totp";
+import {
+  consumeRecoveryCode,
+  deleteRecoveryCodes,
+  replaceRecoveryCodes,
+} from "@/lib/db/recovery-codes";
+
+// Per account, on top of the per-IP limits, so codes can't be guessed by
+// spreading attempts across IPs. Counted on the user row so the limit holds
+// across server instances.
+const VERIFY_LIMIT = 5;
+const VERIFY_WINDOW_MS = 5 * 60_000;
+
+type TwoFactorUser = Pick<
+  typeof authUsers.$inferSelect,
+  "id" | "email" | "totpSecret" | "totpEnabledAt"
+>;
+
+// TOTP secrets have to be readable to check codes, so unlike tokens they
+// can't be hashed; they are encrypted with a key derived from AUTH_SECRET.
+function getEncryptionKey(): Buffer {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Encryption secret is not configured. Set AUTH_SECRET or NEXTAUTH_SECRET environment variable."
+    );
+  }
+  return createHash("sha256").update(`totp:${secret}`).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+export function isTwoFactorEnabled(user: Pick<TwoFactorUser, "totpEnabledAt">) {
+  return !!user.totpEnabledAt;
+}
+
+/**
+ * Generates a new secret for the user to add to their authenticator app. It
+ * isn't enforced until confirmed with enableTwoFactor. Returns null if 2FA is
+ * already on.
+ */
+export async function startTwoFactorSetup(
+  user: TwoFactorUser
+): Promise<{ secret: string; otpauthUri: string } | null> {
+  const secret = generateTotpSecret();
+
+  const updated = await db
+    .update(authUsers)
+    .set({ totpSecret: encryptSecret(secret), totpLastUsedStep: null })
+    .where(and(eq(authUsers.id, user.id), isNull(authUsers.totpEnabledAt)))
+    .returning({ id: authUsers.id });
+
+  if (updated.length === 0) return null;
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+}
+
+/**
+ * Turns 2FA on once the user proves their app produces valid codes for the
+ * pending secret. Returns the new recovery codes, or null if the code is wrong.
+ */
+export async function enableTwoFactor(
+  user: TwoFactorUser,
+  code: string
+): Promise<string[] | null> {
+  if (user.totpEnabledAt || !user.totpSecret) return null;
+
+  const step = verifyTotp(decryptSecret(user.totpSecret), code);
+  if (step === null) return null;
+
+  const enabled = await db
+    .update(authUsers)
+    .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+    .where(
+      and(
+        eq(authUsers.id, user.id),
+        eq(authUsers.totpSecret, user.totpSecret),
+        isNull(authUsers.totpEnabledAt)
+      )
+    )
+    .returning({ id: authUsers.id });
+
+  if (enabled.length === 0) return null;
+
+  return replaceRecoveryCodes(user.id);
+}
+
+export async function disableTwoFactor(userId: string) {
+  await db
+    .update(authUsers)
+    .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+    .where(eq(authUsers.id, userId));
+  await deleteRecoveryCodes(userId);
+}
+
+/**
+ * Counts a second-factor attempt against the account, starting a new window
+ * once the last one has passed. Returns false once the limit is reached.
+ */
+async function claimVerifyAttempt(userId: string): Promise<boolean> {
+  const now = new Date();
+  const windowOpen = gt(authUsers.totpAttemptsResetAt, now);
+
+  const claimed = await db
+    .update(authUsers)
+    .set({
+      totpAttempts: sql`CASE WHEN ${windowOpen} THEN ${authUsers.totpAttempts} + 1 ELSE 1 END`,
+      totpAttemptsResetAt: sql`CASE WHEN ${windowOpen} THEN ${authUsers.totpAttemptsResetAt} ELSE ${now.getTime() + VERIFY_WINDOW_MS} END`,
+    })
+    .where(
+      and(
+        eq(authUsers.id, userId),
+        or(
+          isNull(authUsers.totpAttemptsResetAt),
+          lte(authUsers.totpAttemptsResetAt, now),
+          lt(authUsers.totpAttempts, VERIFY_LIMIT)
+        )
+      )
+    )
+    .returning({ id: authUsers.id });
+
+  return claimed.length > 0;
+}
+
+/**
+ * Checks a second factor for a user with 2FA enabled: either a current TOTP
+ * code or an unused recovery code, which is used up. Each TOTP time step is
+ * only accepted once.
+ */
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  code: string
+): Promise<boolean> {
+  if (!user.totpEnabledAt || !user.totpSecret) return false;
+
+  if (!(await claimVerifyAttempt(user.id))) return false;
+
+  const step = verifyTotp(decryptSecret(user.totpSecret), code);
+  if (step !== null) {
+    const accepted = await db
+      .update(authUsers)
+      .set({ totpLastUsedStep: step })
+      .where(
+        and(
+          eq(authUsers.id, user.id),
+          or(
+            isNull(authUsers.totpLastUsedStep),
+            lt(authUsers.totpLastUsedStep, step)
+          )
+        )
+      )
+      .returning({ id: authUsers.id });
+    return accepted.length > 0;
+  }
+
+  return consumeRecoveryCode(user.id, code);
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { rateLimit } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-info";
 
+// Matched in order, so longer prefixes must come before the ones they extend
 const RATE_LIMITS: Record<string, { limit: number; windowMs: number }> = {
+  // The app polls every 5s (or slower after slow_down) while sign-in is pending
+  "/api/auth/device/token": { limit: 20, windowMs: 60_000 },
   "/api/auth": { limit: 5, windowMs: 60_000 },
   "/api/ai": { limit: 30, windowMs: 60_000 },
   "/api/stripe": { limit: 10, windowMs: 60_000 },
@@ -10,26 +14,14 @@ const RATE_LIMITS: Record<string, { limit: number; windowMs: number }> = {
 
 const DEFAULT_LIMIT = { limit: 60, windowMs: 60_000 };
 
-function getClientIp(request: NextRequest): string {
-  // On Vercel, use the platform-verified IP header first
-  const vercelIp = request.headers.get("x-vercel-forwarded-for");
-  if (vercelIp) return vercelIp.split(",")[0]?.trim() || "anonymous";
-
-  // Fallback: use the last IP in x-forwarded-for (added by outermost trusted proxy)
-  const xff = request.headers.get("x-forwarded-for");
-  if (xff) {
-    const ips = xff.split(",").map((s) => s.trim()).filter(Boolean);
-    return ips[ips.length - 1] || "anonymous";
-  }
-
-  return request.headers.get("x-real-ip") || "anonymous";
-}
-
 function getRateConfig(pathname: string) {
   for (const [prefix, config] of Object.entries(RATE_LIMITS)) {
-    if (pathname.startsWith(prefix)) return config;
+    if (pathname.startsWith(prefix)) return { ...config, bucket: prefix };
   }
-  return DEFAULT_LIMIT;
+  return {
+    ...DEFAULT_LIMIT,
+    bucket: pathname.split("/").slice(0, 3).join("/"),
+  };
 }
 
 export async function middleware(request: NextRequest) {
@@ -47,7 +39,7 @@ export async function middleware(request: NextRequest) {
 
   const ip = getClientIp(request);
   const config = getRateConfig(pathname);
-  const identifier = `${ip}:${pathname.split("/").slice(0, 3).join("/")}`;
+  const identifier = `${ip}:${config.bucket}`;
 
   try {
     const result = await rateLimit(identifier, config.limit, config.windowMs);
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+// Runs the Stripe subscription reconciliation through the cron route and saves
+// the report. Point APP_URL at a local server (started with STRIPE_API_BASE
+// set to a Stripe stub) to try it without a real Stripe account.
+//
+//   CRON_SECRET=... node scripts/reconcile-subscriptions.mjs [--dry-run] [--out report.json]
+
+import { writeFile } from "node:fs/promises";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const outIndex = args.indexOf("--out");
+const out =
+  outIndex >= 0
+    ? args[outIndex + 1]
+    : `reconciliation-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+
+const appUrl = process.env.APP_URL ?? process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error("CRON_SECRET is required");
+  process.exit(1);
+}
+if (!out) {
+  console.error("--out needs a file path");
+  process.exit(1);
+}
+
+const url = new URL("/api/cron/reconcile-subscriptions", appUrl);
+if (dryRun) url.searchParams.set("dry_run", "1");
+
+const response = await fetch(url, {
+  headers: { authorization: `Bearer ${secret}` },
+});
+const body = await response.text();
+
+if (!response.ok) {
+  console.error(`Reconciliation failed (${response.status}): ${body}`);
+  process.exit(1);
+}
+
+const report = JSON.parse(body);
+await writeFile(out, `${JSON.stringify(report, null, 2)}\n`);
+
+console.log(
+  `${dryRun ? "Dry run: " : ""}${report.stripeSubscriptions} Stripe subscriptions checked, ` +
+    `${report.updated.length} updated, ${report.expired.length} expired, ` +
+    `${report.missing.length} missing, ${report.skipped.length} skipped, ` +
+    `${report.errors.length} errors`
+);
+console.log(`Report written to ${out}`);
+
+if (report.errors.length > 0) process.exit(1);
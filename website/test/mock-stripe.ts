@@ -0,0 +1,53 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * A local stand-in for the parts of the Stripe API the jobs read, for use with
+ * STRIPE_API_BASE. Lists are served in pages of `pageSize`, whatever limit is
+ * asked for, so callers' pagination gets exercised.
+ */
+export async function startMockStripe(options: { pageSize?: number } = {}) {
+  const pageSize = options.pageSize ?? 2
+  let subscriptions: { id: string }[] = []
+  const requests: string[] = []
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    requests.push(`${req.method} ${url.pathname}`)
+    res.setHeader('Content-Type', 'application/json')
+
+    if (req.method !== 'GET' || url.pathname !== '/v1/subscriptions') {
+      res.statusCode = 404
+      res.end(JSON.stringify({ error: { type: 'invalid_request_error', message: 'Not mocked' } }))
+      return
+    }
+
+    const after = url.searchParams.get('starting_after')
+    const start = after ? subscriptions.findIndex((sub) => sub.id === after) + 1 : 0
+    res.end(
+      JSON.stringify({
+        object: 'list',
+        url: '/v1/subscriptions',
+        has_more: start + pageSize < subscriptions.length,
+        data: subscriptions.slice(start, start + pageSize),
+      })
+    )
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setSubscriptions(next: { id: string }[]) {
+      subscriptions = next
+    },
+    close(): Promise<void> {
+      server.closeAllConnections()
+      return new Promise((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+export type MockStripe = Awaited<ReturnType<typeof startMockStripe>>
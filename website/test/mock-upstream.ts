@@ -0,0 +1,78 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface MockReply {
+  status: number
+  headers?: Record<string, string>
+  body?: unknown
+  // Holds the reply back, to keep a request in flight
+  delayMs?: number
+}
+
+const OK_COMPLETION = {
+  id: 'chatcmpl-mock',
+  object: 'chat.completion',
+  created: 0,
+  model: 'mock',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+}
+
+/**
+ * A local stand-in for the AI providers. Each provider is served under its
+ * own path prefix (`/openai`, `/anthropic`, `/gemini`, `/kimi`) and answers
+ * with the replies queued for it, then with a 200 once the queue is empty.
+ */
+export async function startMockUpstream() {
+  const queues = new Map<string, MockReply[]>()
+  const hits = new Map<string, number>()
+
+  const server = http.createServer((req, res) => {
+    const provider = (req.url ?? '').split('/')[1] ?? ''
+    hits.set(provider, (hits.get(provider) ?? 0) + 1)
+
+    const reply = queues.get(provider)?.shift() ?? { status: 200, body: OK_COMPLETION }
+    req.resume()
+    req.on('end', () => {
+      setTimeout(() => {
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers })
+        res.end(JSON.stringify(reply.body ?? { error: { message: `mock ${reply.status}` } }))
+      }, reply.delayMs ?? 0)
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const url = `http://127.0.0.1:${port}`
+
+  return {
+    url,
+    // Env vars pointing every provider at this server
+    env: {
+      OPENAI_API_URL: `${url}/openai`,
+      OPENAI_API_KEY: 'test',
+      ANTHROPIC_API_URL: `${url}/anthropic`,
+      ANTHROPIC_API_KEY: 'test',
+      GEMINI_API_URL: `${url}/gemini`,
+      GEMINI_API_KEY: 'test',
+      KIMI_API_URL: `${url}/kimi`,
+      KIMI_API_KEY: 'test',
+    },
+    queue(provider: string, ...replies: MockReply[]) {
+      queues.set(provider, [...(queues.get(provider) ?? []), ...replies])
+    },
+    hits(provider: string): number {
+      return hits.get(provider) ?? 0
+    },
+    reset() {
+      queues.clear()
+      hits.clear()
+    },
+    close(): Promise<void> {
+      server.closeAllConnections()
+      return new Promise((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+export type MockUpstream = Awaited<ReturnType<typeof startMockUpstream>>
@@ -0,0 +1,23 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createClient } from '@libsql/client'
+import { drizzle } from 'drizzle-orm/libsql'
+import { migrate } from 'drizzle-orm/libsql/migrator'
+import { afterAll, beforeAll } from 'vitest'
+
+// Every test file gets its own migrated SQLite database. lib/db connects when
+// it is first imported, so the URL has to be in place before the file loads.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ezlander-test-'))
+process.env.TURSO_DATABASE_URL = `file:${path.join(dir, 'test.db')}`
+
+// Hooks registered here run before the test file's own
+beforeAll(async () => {
+  const client = createClient({ url: process.env.TURSO_DATABASE_URL! })
+  await migrate(drizzle(client), { migrationsFolder: path.resolve(__dirname, '../drizzle') })
+  client.close()
+})
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
@@ -0,0 +1,25 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'node',
+    setupFiles: ['test/setup.ts'],
+    env: {
+      MAIL_TRANSPORT: 'capture',
+      NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+      STRIPE_SECRET_KEY: 'sk_test_123',
+      STRIPE_PRO_MONTHLY_PRICE_ID: 'price_pro_monthly',
+      STRIPE_PRO_YEARLY_PRICE_ID: 'price_pro_yearly',
+      STRIPE_MAX_MONTHLY_PRICE_ID: 'price_max_monthly',
+      STRIPE_MAX_YEARLY_PRICE_ID: 'price_max_yearly',
+    },
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    // Suites share env vars and module-level state such as the breakers
+    fileParallelism: false,
+  },
+})